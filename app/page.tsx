@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { Play, Settings, Download } from 'lucide-react';
+import { useState, useCallback, useMemo } from 'react';
+import { Play, Settings, Download, Upload, FileUp, X } from 'lucide-react';
 import { BenchmarkRunner } from '@/components/BenchmarkRunner';
 import { ResultsVisualization } from '@/components/ResultsVisualization';
 import { ConfigPanel } from '@/components/ConfigPanel';
@@ -9,87 +9,113 @@ import { AlgorithmCard } from '@/components/AlgorithmCard';
 import { ConfigurationPanel } from '@/components/ConfigurationPanel';
 import { PerformanceInsights } from '@/components/PerformanceInsights';
 import { ComplexityReference } from '@/components/ComplexityReference';
-import { runRealBenchmark } from '@/lib/benchmark';
+import { DEFAULT_GRAPH_MODE, getStructures } from '@/lib/structures';
+import { DEFAULT_TOPOLOGY } from '@/lib/generators';
+import { parseGraph, GRAPH_FORMATS, type LoadedGraph } from '@/lib/importers';
+import { useBenchmarkRun } from '@/lib/useBenchmarkRun';
+import { estimateOperations, type BenchmarkConfig } from '@/lib/benchmark';
+import { OUTPUT_FORMATS, getOutputFormat, renderResults, type OutputFormat } from '@/lib/formats';
+import { importResults, type ResultRun, type SavedResults } from '@/lib/results';
 
-export interface BenchmarkConfig {
-  sizes: number[];
-  samples: number;
-  reps: number;
-  degree: number;
-}
-
-export interface BenchmarkResult {
-  n: number;
-  edges: number;
-  sparsity: number;
-  'MB: AM': number;
-  'MB: AL': number;
-  'MB: AM+AL': number;
-  'MB: OOP': number;
-  'ns/op hasEdge AM': number;
-  'ns/op hasEdge AL': number;
-  'ns/op hasEdge AM+AL': number;
-  'ns/op hasEdge OOP': number;
-  'ns/op traverseOut AM': number;
-  'ns/op traverseOut AL': number;
-  'ns/op traverseOut AM+AL': number;
-  'ns/op traverseOut OOP': number;
-  'ns/op traverseIn AM': number;
-  'ns/op traverseIn AL': number;
-  'ns/op traverseIn AM+AL': number;
-  'ns/op traverseIn OOP': number;
-}
+export type { BenchmarkConfig, BenchmarkResult } from '@/lib/benchmark';
 
 const defaultConfig: BenchmarkConfig = {
   sizes: [10, 50, 200],
   samples: 5000,
   reps: 200,
-  degree: 8
+  degree: 8,
+  mutations: 500,
+  seed: 42,
+  trials: 5,
+  warmup: 1,
+  topology: DEFAULT_TOPOLOGY,
+  multigraph: DEFAULT_GRAPH_MODE.multigraph,
+  selfLoops: DEFAULT_GRAPH_MODE.selfLoops,
+  verify: true
 };
 
 export default function Home() {
   const [config, setConfig] = useState<BenchmarkConfig>(defaultConfig);
-  const [results, setResults] = useState<BenchmarkResult[]>([]);
-  const [isRunning, setIsRunning] = useState(false);
   const [showConfig, setShowConfig] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [graph, setGraph] = useState<LoadedGraph | null>(null);
+  const [graphError, setGraphError] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<OutputFormat>('json');
+  const [importedRuns, setImportedRuns] = useState<ResultRun[]>([]);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const {
+    status, progress, results, memorySource, runtime, config: runConfig, graph: runGraph, startedAt, error, isRunning, start, cancel,
+  } = useBenchmarkRun();
 
-  const handleRun = useCallback(async () => {
-    setIsRunning(true);
-    setProgress(0);
-    setResults([]);
-    
+  const handleRun = useCallback(() => start(config, graph), [start, config, graph]);
+
+  const handleGraphUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-selecting the same file
+    if (!file) return;
     try {
-      const benchmarkResults = await runRealBenchmark(config, (p) => setProgress(p));
-      setResults(benchmarkResults);
+      setGraph(parseGraph(file.name, await file.text()));
+      setGraphError(null);
     } catch (error) {
-      console.error('Benchmark failed:', error);
-    } finally {
-      setIsRunning(false);
-      setProgress(0);
+      setGraph(null);
+      setGraphError((error as Error).message);
+    }
+  }, []);
+
+  // Result files from the web export or the CLI's benchmark-results/, overlaid on the current run
+  const handleResultsImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const runs: ResultRun[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        runs.push(importResults(file.name, await file.text()));
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
     }
-  }, [config]);
+    setImportedRuns(prev => [...prev, ...runs.filter(run => !prev.some(p => p.id === run.id))]);
+    setImportErrors(errors);
+  }, []);
+
+  const runs = useMemo<ResultRun[]>(() => [
+    ...(results.length > 0 ? [{
+      id: 'current',
+      label: 'Current run',
+      timestamp: startedAt ?? undefined,
+      structures: getStructures().map(s => s.name),
+      memorySource: memorySource ?? undefined,
+      runtime,
+      results,
+    }] : []),
+    ...importedRuns,
+  ], [results, memorySource, runtime, startedAt, importedRuns]);
 
+  // Described with the settings the run started with, not the ones edited since
   const handleDownload = useCallback(() => {
-    const data = {
-      timestamp: new Date().toISOString(),
-      config,
+    if (!runConfig) return;
+    const data: SavedResults = {
+      timestamp: startedAt ?? new Date().toISOString(),
+      config: runConfig,
+      graph: runGraph ? { name: runGraph.name, format: runGraph.format, n: runGraph.n, edges: runGraph.edges.length } : null,
+      memorySource: memorySource ?? undefined,
+      runtime: runtime ?? undefined,
+      structures: getStructures().map(s => s.name),
       results
     };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const format = getOutputFormat(exportFormat);
+    const blob = new Blob([renderResults(data, exportFormat)], { type: format.mime });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `graph-benchmark-${new Date().toISOString().split('T')[0]}.json`;
+    a.download = `graph-benchmark-${new Date().toISOString().split('T')[0]}${format.extension}`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-  }, [config, results]);
+  }, [runConfig, runGraph, startedAt, memorySource, runtime, results, exportFormat]);
 
-  const totalOps = config.sizes.reduce((sum, n) => 
-    sum + (config.samples * 4) + (config.reps * n * 2 * 4), 0
-  );
+  const totalOps = estimateOperations(config, graph);
 
   return (
     <main className="min-h-screen bg-gradient-to-br from-gray-900 via-blue-900 to-indigo-900">
@@ -100,7 +126,7 @@ export default function Home() {
           </h1>
           <p className="text-blue-200 text-xl max-w-4xl mx-auto">
             Interactive benchmarking suite comparing Adjacency Matrix, Adjacency List, Combined, 
-            Object-Oriented, and advanced graph representations
+            Object-Oriented (object and struct-of-arrays), Compressed Sparse Row, sparse bitmap, hashed matrix and persistent representations
           </p>
         </header>
 
@@ -126,14 +152,81 @@ export default function Home() {
                   {showConfig ? 'Hide Config' : 'Configure'}
                 </button>
                 
+                <label className="flex items-center gap-2 px-6 py-4 bg-white/20 backdrop-blur text-white rounded-xl hover:bg-white/30 border border-white/30 cursor-pointer">
+                  <Upload size={20} />
+                  Load Graph
+                  <input
+                    type="file"
+                    accept={GRAPH_FORMATS.flatMap(f => f.extensions).join(',')}
+                    onChange={handleGraphUpload}
+                    disabled={isRunning}
+                    className="hidden"
+                  />
+                </label>
+                
+                {graph && (
+                  <div className="flex items-center gap-2 px-4 py-2 bg-black/20 rounded-lg text-sm text-white">
+                    <span>
+                      {graph.name} <span className="text-blue-300">({graph.format}, {graph.n.toLocaleString()} nodes, {graph.edges.length.toLocaleString()} edges)</span>
+                    </span>
+                    <button
+                      onClick={() => setGraph(null)}
+                      disabled={isRunning}
+                      title="Use generated graphs again"
+                      className="text-blue-200 hover:text-white"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                )}
+                
+                <label className="flex items-center gap-2 px-6 py-4 bg-white/20 backdrop-blur text-white rounded-xl hover:bg-white/30 border border-white/30 cursor-pointer">
+                  <FileUp size={20} />
+                  Import Results
+                  <input
+                    type="file"
+                    accept=".json"
+                    multiple
+                    onChange={handleResultsImport}
+                    className="hidden"
+                  />
+                </label>
+
+                {importedRuns.map(run => (
+                  <div key={run.id} className="flex items-center gap-2 px-4 py-2 bg-black/20 rounded-lg text-sm text-white">
+                    <span>
+                      {run.label} <span className="text-blue-300">({run.results.length} size{run.results.length === 1 ? '' : 's'}, {run.structures.length} structures)</span>
+                    </span>
+                    <button
+                      onClick={() => setImportedRuns(prev => prev.filter(r => r.id !== run.id))}
+                      title="Remove this run from the charts"
+                      className="text-blue-200 hover:text-white"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                ))}
+
                 {results.length > 0 && (
-                  <button
-                    onClick={handleDownload}
-                    className="flex items-center gap-2 px-6 py-4 bg-green-600 text-white rounded-xl hover:bg-green-700"
-                  >
-                    <Download size={20} />
-                    Export Results
-                  </button>
+                  <div className="flex items-center">
+                    <select
+                      value={exportFormat}
+                      onChange={(e) => setExportFormat(e.target.value as OutputFormat)}
+                      title="Export format"
+                      className="px-3 py-4 bg-green-700 text-white rounded-l-xl border-r border-green-800 focus:outline-none"
+                    >
+                      {OUTPUT_FORMATS.map(f => (
+                        <option key={f.id} value={f.id}>{f.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleDownload}
+                      className="flex items-center gap-2 px-6 py-4 bg-green-600 text-white rounded-r-xl hover:bg-green-700"
+                    >
+                      <Download size={20} />
+                      Export Results
+                    </button>
+                  </div>
                 )}
               </div>
               
@@ -146,6 +239,31 @@ export default function Home() {
           </div>
         </div>
 
+        {graphError && (
+          <div className="max-w-7xl mx-auto mb-8 p-4 bg-red-500/20 border border-red-400/40 rounded-xl text-red-100 text-sm">
+            Could not load graph: {graphError}
+          </div>
+        )}
+
+        {importErrors.length > 0 && (
+          <div className="max-w-7xl mx-auto mb-8 p-4 bg-red-500/20 border border-red-400/40 rounded-xl text-red-100 text-sm">
+            {importErrors.map(message => <div key={message}>Could not import results: {message}</div>)}
+          </div>
+        )}
+
+        {status === 'error' && (
+          <div className="max-w-7xl mx-auto mb-8 p-4 bg-red-500/20 border border-red-400/40 rounded-xl text-red-100 text-sm">
+            Benchmark failed: {error}
+            {results.length > 0 && ` (showing the ${results.length} size${results.length === 1 ? '' : 's'} completed before the failure)`}
+          </div>
+        )}
+
+        {status === 'cancelled' && (
+          <div className="max-w-7xl mx-auto mb-8 p-4 bg-yellow-500/20 border border-yellow-400/40 rounded-xl text-yellow-100 text-sm">
+            Benchmark cancelled{results.length > 0 ? ` after ${results.length} size${results.length === 1 ? '' : 's'}` : ' before any size completed'}.
+          </div>
+        )}
+
         {showConfig && (
           <div className="max-w-7xl mx-auto mb-8">
             <ConfigPanel
@@ -158,10 +276,12 @@ export default function Home() {
         {isRunning && (
           <div className="max-w-7xl mx-auto mb-8">
             <BenchmarkRunner
-              config={config}
-              onProgress={setProgress}
-              onComplete={setResults}
+              config={runConfig ?? config}
+              graph={runGraph}
               progress={progress}
+              completedSizes={results.length}
+              memorySource={memorySource}
+              onCancel={cancel}
             />
           </div>
         )}
@@ -169,8 +289,8 @@ export default function Home() {
         <div className="max-w-7xl mx-auto grid grid-cols-1 xl:grid-cols-4 gap-8">
           {/* Main Results Area */}
           <div className="xl:col-span-3 space-y-8">
-            {results.length > 0 && (
-              <ResultsVisualization results={results} />
+            {runs.length > 0 && (
+              <ResultsVisualization runs={runs} />
             )}
             
             {/* Algorithm Explanations */}
@@ -193,6 +313,27 @@ const hasEdge = (u, v) => {
 };`}
               />
               
+              <AlgorithmCard
+                title="Matrix + Transpose (AMT)"
+                color="bg-teal-600"
+                complexity={{
+                  space: "O(2V²)",
+                  lookup: "O(1)",
+                  traversal: "O(V/32 + degree)"
+                }}
+                description="AM with a second, column-major bitset. Rows and columns are padded to whole words and scanned a word at a time, skipping empty words."
+                pros={["Inbound traversal as fast as outbound", "Word scans skip empty regions", "Vertex removal touches one row and column"]}
+                cons={["Twice AM's bitset memory", "Every edge write updates two bitsets", "Still quadratic space"]}
+                code={`// 32 cells per step: skip zero words, pop set bits
+for (let w = 0; w < words; w++) {
+  let word = cols[v * words + w];
+  while (word) {
+    visit((w << 5) + 31 - Math.clz32(word & -word));
+    word &= word - 1;
+  }
+}`}
+              />
+              
               <AlgorithmCard
                 title="Adjacency List (AL)"
                 color="bg-green-600"
@@ -250,6 +391,113 @@ const addEdge = (u, v) => {
 const hasEdge = (u, v) => 
   nodes[u].outputs.some(link => link.to === v);`}
               />
+              
+              <AlgorithmCard
+                title="Struct-of-Arrays OOP (SOA)"
+                color="bg-indigo-600"
+                complexity={{
+                  space: "O(V + E)",
+                  lookup: "O(degree)",
+                  traversal: "O(degree)"
+                }}
+                description="The OOP node/link model stored ECS-style: link fields in typed arrays indexed by link id, a free list recycling removed ids, and per-node intrusive linked lists of link ids. Handles keep the object API."
+                pros={["No per-link objects", "O(1) link removal", "Recycled ids, no GC churn"]}
+                cons={["Pointer-chasing traversal", "Linear lookups like OOP", "Handles allocate on access"]}
+                code={`const linkTo = new Int32Array(capacity);
+const nextOut = new Int32Array(capacity);
+const firstOut = new Int32Array(n).fill(-1);
+const hasEdge = (u, v) => {
+  for (let l = firstOut[u]; l !== -1; l = nextOut[l])
+    if (linkTo[l] === v) return true;
+  return false;
+};`}
+              />
+              
+              <AlgorithmCard
+                title="Compressed Sparse Row (CSR)"
+                color="bg-pink-600"
+                complexity={{
+                  space: "O(V + E)",
+                  lookup: "O(log degree)",
+                  traversal: "O(degree)"
+                }}
+                description="Offset array plus packed Int32Array of sorted targets, with a transposed CSC copy for inbound edges. Built for large, mostly static graphs."
+                pros={["Smallest memory footprint", "Contiguous, cache-friendly traversal", "No per-node objects"]}
+                cons={["Rebuild required to mutate", "Binary-search lookups", "Two copies for in/out"]}
+                code={`const offsets = new Int32Array(n + 1);
+const targets = new Int32Array(m); // sorted per row
+const outNeighbors = (u) =>
+  targets.subarray(offsets[u], offsets[u + 1]);`}
+              />
+              
+              <AlgorithmCard
+                title="Roaring Bitmap Matrix (RBM)"
+                color="bg-cyan-600"
+                complexity={{
+                  space: "O(V + E)",
+                  lookup: "O(log 4096) max",
+                  traversal: "O(degree)"
+                }}
+                description="One Roaring-style bitmap per row and per column: sorted Uint16Array containers that switch to 65536-bit bitmaps once they hold more than 4096 values."
+                pros={["Matrix-style rows at list-like memory", "Bounded lookup cost", "Cheap vertex insertion"]}
+                cons={["Container bookkeeping on every insert", "Binary search below the bitmap threshold", "Two copies for in/out"]}
+                code={`// containers keyed by the high 16 bits of v
+const c = rows[u].find(c => c.key === v >>> 16);
+const has = c && (c.bits
+  ? (c.bits[(v & 0xFFFF) >>> 5] >>> (v & 31)) & 1
+  : binarySearch(c.values, v & 0xFFFF) >= 0);`}
+              />
+              
+              <AlgorithmCard
+                title="Tiled Bitmap (TILE)"
+                color="bg-red-600"
+                complexity={{
+                  space: "O(V + tiles)",
+                  lookup: "O(1) avg",
+                  traversal: "O(tiles + degree)"
+                }}
+                description="The adjacency matrix cut into 32x32-bit tiles, allocating only the non-empty ones and finding them through a hash of tile coordinates."
+                pros={["Bit-test lookups without n² memory", "Dense clusters pack 1024 cells in 128 bytes", "Cheap vertex insertion"]}
+                cons={["A whole tile per isolated edge", "Column scans touch 32 rows per tile", "Hash lookup before every bit test"]}
+                code={`const tile = tiles.get(key(u >>> 5, v >>> 5));
+const hasEdge = tile !== undefined &&
+  (pool[tile * 32 + (u & 31)] >>> (v & 31)) & 1;`}
+              />
+              
+              <AlgorithmCard
+                title="Global Edge Hash (HASH)"
+                color="bg-lime-600"
+                complexity={{
+                  space: "O(V + E)",
+                  lookup: "O(1) avg",
+                  traversal: "O(degree)"
+                }}
+                description="A single Map from edge key u * 2^26 + v to the edge record, with plain out/in lists for traversal instead of a Map per node."
+                pros={["Hash lookups with no per-node Map objects", "Keys survive vertex insertion", "Simple to implement"]}
+                cons={["Every lookup hashes a double key", "Slot queries hash every neighbor", "Edge removal scans lists"]}
+                code={`const key = (u, v) => u * 2 ** 26 + v;
+const edges = new Map(); // key -> attributes
+const hasEdge = (u, v) => edges.has(key(u, v));`}
+              />
+              
+              <AlgorithmCard
+                title="Persistent Graph (PVEC)"
+                color="bg-yellow-600"
+                complexity={{
+                  space: "O(V + E)",
+                  lookup: "O(log₃₂ V + log degree)",
+                  traversal: "O(log₃₂ V + degree)"
+                }}
+                description="Immutable versions with structural sharing: a 32-way persistent vector of per-node records with sorted targets. Each edit copies only the touched records and trie paths, so undo snapshots are free."
+                pros={["O(1) snapshots for undo/redo", "Old versions stay valid", "Versions share unchanged nodes"]}
+                cons={["Every edit allocates copies", "Trie walk on each access", "Higher add/remove cost"]}
+                code={`const v1 = graph.withEdge(0, 1);
+const v2 = v1.withoutEdge(0, 1);
+// graph, v1 and v2 all stay valid
+undoStack.push(v1);
+v1.has(0, 1); // true
+v2.has(0, 1); // false`}
+              />
             </div>
           </div>
 
@@ -1,25 +1,35 @@
-import { useEffect } from 'react';
-import { BenchmarkConfig, BenchmarkResult } from '@/app/page';
-import { runRealBenchmark } from '@/lib/benchmark';
+import { Square } from 'lucide-react';
+import { BenchmarkConfig } from '@/app/page';
+import type { LoadedGraph } from '@/lib/importers';
+import type { MemorySource } from '@/lib/benchmark';
 
 interface BenchmarkRunnerProps {
   config: BenchmarkConfig;
-  onProgress: (progress: number) => void;
-  onComplete: (results: BenchmarkResult[]) => void;
+  graph?: LoadedGraph | null;
   progress: number;
+  completedSizes: number;
+  memorySource: MemorySource | null;  // null until the worker has started
+  onCancel: () => void;
 }
 
-export function BenchmarkRunner({ config, onProgress, onComplete, progress }: BenchmarkRunnerProps) {
-  useEffect(() => {
-    // Run the actual benchmark logic
-    runRealBenchmark(config, onProgress).then(onComplete);
-  }, [config, onProgress, onComplete]);
+// Progress display for a run executing in the benchmark worker (see app/page.tsx)
+export function BenchmarkRunner({ config, graph, progress, completedSizes, memorySource, onCancel }: BenchmarkRunnerProps) {
+  const totalSizes = graph ? 1 : config.sizes.length;
 
   return (
     <div className="bg-white/10 backdrop-blur-sm border border-white/20 rounded-2xl p-6">
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-xl font-bold text-white">Running Performance Analysis...</h3>
-        <div className="text-lg font-bold text-blue-300">{Math.round(progress)}%</div>
+        <div className="flex items-center gap-4">
+          <div className="text-lg font-bold text-blue-300">{Math.round(progress)}%</div>
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm font-semibold"
+          >
+            <Square size={14} />
+            Cancel
+          </button>
+        </div>
       </div>
       
       <div className="w-full bg-black/20 rounded-full h-4 mb-4">
@@ -30,9 +40,15 @@ export function BenchmarkRunner({ config, onProgress, onComplete, progress }: Be
       </div>
       
       <div className="text-blue-200 flex items-center justify-between">
-        <span>Testing {config.sizes.length} node configurations...</span>
-        <span>{config.samples.toLocaleString()} samples per test</span>
+        <span>{graph ? `Testing ${graph.name} (${graph.n} nodes)...` : `Testing ${config.sizes.length} node configurations...`}</span>
+        <span>{completedSizes} of {totalSizes} sizes done · {config.samples.toLocaleString()} samples per test</span>
       </div>
+      {memorySource === 'measureUserAgentSpecificMemory' && (
+        <p className="mt-3 text-xs text-blue-200/80">
+          Memory is read with performance.measureUserAgentSpecificMemory(), which waits for the browser&apos;s next
+          garbage collection: expect each structure to pause for a few seconds while its two readings arrive.
+        </p>
+      )}
     </div>
   );
 }
@@ -6,41 +6,136 @@ export function ComplexityReference() {
       operation: "Space Complexity",
       icon: <HardDrive className="text-indigo-400" size={16} />,
       am: "O(V²)",
+      amt: "O(2V²)",
       al: "O(V + E)",
       combined: "O(V² + E)",
-      oop: "O(V + E + overhead)"
+      oop: "O(V + E + overhead)",
+      soa: "O(V + E)",
+      csr: "O(V + E)",
+      rbm: "O(V + E)",
+      tile: "O(V + T)",
+      hash: "O(V + E)",
+      pvec: "O(V + E)"
     },
     {
       operation: "Edge Lookup",
       icon: <Search className="text-green-400" size={16} />,
       am: "O(1)",
+      amt: "O(1)",
       al: "O(1) avg",
       combined: "O(1)",
-      oop: "O(degree)"
+      oop: "O(degree)",
+      soa: "O(degree)",
+      csr: "O(log degree)",
+      rbm: "O(log min(degree, 4096))",
+      tile: "O(1) avg",
+      hash: "O(1) avg",
+      pvec: "O(log₃₂ V + log degree)"
+    },
+    {
+      operation: "Edge Weight",
+      icon: <Search className="text-teal-400" size={16} />,
+      am: "O(1)",
+      amt: "O(1)",
+      al: "O(1) avg",
+      combined: "O(1)",
+      oop: "O(degree)",
+      soa: "O(degree)",
+      csr: "O(log degree)",
+      rbm: "O(log min(degree, 4096))",
+      tile: "O(1) avg",
+      hash: "O(1) avg",
+      pvec: "O(log₃₂ V + log degree)"
+    },
+    {
+      operation: "Links on Slot",
+      icon: <Search className="text-lime-400" size={16} />,
+      am: "O(V)",
+      amt: "O(V/32 + degree)",
+      al: "O(degree)",
+      combined: "O(degree)",
+      oop: "O(slot degree)",
+      soa: "O(degree)",
+      csr: "O(degree)",
+      rbm: "O(degree)",
+      tile: "O(row tiles + degree)",
+      hash: "O(degree)",
+      pvec: "O(log₃₂ V + degree)"
     },
     {
       operation: "Add Edge",
       icon: <Clock className="text-blue-400" size={16} />,
       am: "O(1)",
+      amt: "O(1)",
       al: "O(1) avg",
       combined: "O(1)",
-      oop: "O(1)"
+      oop: "O(1)",
+      soa: "O(1) amortized",
+      csr: "O(V + E)",
+      rbm: "O(min(degree, 4096))",
+      tile: "O(1) avg",
+      hash: "O(1) avg",
+      pvec: "O(degree + log₃₂ V)"
+    },
+    {
+      operation: "Remove Edge",
+      icon: <Clock className="text-sky-400" size={16} />,
+      am: "O(1)",
+      amt: "O(1)",
+      al: "O(degree)",
+      combined: "O(degree)",
+      oop: "O(degree)",
+      soa: "O(degree)",
+      csr: "O(V + E)",
+      rbm: "O(min(degree, 4096))",
+      tile: "O(1) avg",
+      hash: "O(degree)",
+      pvec: "O(degree + log₃₂ V)"
     },
     {
       operation: "Get Neighbors",
       icon: <Clock className="text-orange-400" size={16} />,
       am: "O(V)",
+      amt: "O(V/32 + degree)",
       al: "O(degree)",
       combined: "O(degree)",
-      oop: "O(degree)"
+      oop: "O(degree)",
+      soa: "O(degree)",
+      csr: "O(degree)",
+      rbm: "O(degree)",
+      tile: "O(tiles + degree)",
+      hash: "O(degree)",
+      pvec: "O(log₃₂ V + degree)"
     },
     {
-      operation: "Remove Vertex",
-      icon: <Clock className="text-red-400" size={16} />,
+      operation: "Add Vertex",
+      icon: <Clock className="text-emerald-400" size={16} />,
       am: "O(V²)",
-      al: "O(V + E)",
+      amt: "O(V²) per 32",
+      al: "O(1)",
       combined: "O(V²)",
-      oop: "O(V + E)"
+      oop: "O(1)",
+      soa: "O(1) amortized",
+      csr: "O(V)",
+      rbm: "O(1)",
+      tile: "O(1)",
+      hash: "O(1)",
+      pvec: "O(log₃₂ V)"
+    },
+    {
+      operation: "Remove Vertex",
+      icon: <Clock className="text-red-400" size={16} />,
+      am: "O(V)",
+      amt: "O(V/32 + degree)",
+      al: "O(degree²)",
+      combined: "O(V + degree²)",
+      oop: "O(degree²)",
+      soa: "O(degree)",
+      csr: "O(V + E)",
+      rbm: "O(degree²)",
+      tile: "O(tiles + degree)",
+      hash: "O(degree²)",
+      pvec: "O(degree²)"
     }
   ];
 
@@ -63,6 +158,10 @@ export function ComplexityReference() {
                 <span className="text-blue-300">AM:</span>
                 <code className="text-blue-200 font-mono">{item.am}</code>
               </div>
+              <div className="flex justify-between">
+                <span className="text-teal-300">AMT:</span>
+                <code className="text-teal-200 font-mono">{item.amt}</code>
+              </div>
               <div className="flex justify-between">
                 <span className="text-green-300">AL:</span>
                 <code className="text-green-200 font-mono">{item.al}</code>
@@ -75,6 +174,30 @@ export function ComplexityReference() {
                 <span className="text-orange-300">OOP:</span>
                 <code className="text-orange-200 font-mono">{item.oop}</code>
               </div>
+              <div className="flex justify-between">
+                <span className="text-indigo-300">SOA:</span>
+                <code className="text-indigo-200 font-mono">{item.soa}</code>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-pink-300">CSR:</span>
+                <code className="text-pink-200 font-mono">{item.csr}</code>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-cyan-300">RBM:</span>
+                <code className="text-cyan-200 font-mono">{item.rbm}</code>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-red-300">TILE:</span>
+                <code className="text-red-200 font-mono">{item.tile}</code>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-lime-300">HASH:</span>
+                <code className="text-lime-200 font-mono">{item.hash}</code>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-yellow-300">PVEC:</span>
+                <code className="text-yellow-200 font-mono">{item.pvec}</code>
+              </div>
             </div>
           </div>
         ))}
@@ -84,7 +207,10 @@ export function ComplexityReference() {
         <p className="text-indigo-200 text-xs">
           <span className="font-medium">V</span> = number of vertices, 
           <span className="font-medium"> E</span> = number of edges,
-          <span className="font-medium"> degree</span> = avg edges per vertex
+          <span className="font-medium"> degree</span> = avg edges per vertex.
+          <span className="font-medium"> T</span> = non-empty 32×32 tiles (at most E).
+          Removing a vertex disconnects it; ids are not renumbered.
+          PVEC edits copy the changed nodes and return a new version; snapshots are O(1).
         </p>
       </div>
     </div>
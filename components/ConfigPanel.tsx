@@ -1,4 +1,8 @@
 import { BenchmarkConfig } from '@/app/page';
+import { Shuffle } from 'lucide-react';
+import { randomSeed } from '@/lib/random';
+import { estimateOperations } from '@/lib/benchmark';
+import { TOPOLOGIES, getTopology } from '@/lib/generators';
 
 interface ConfigPanelProps {
   config: BenchmarkConfig;
@@ -12,11 +16,12 @@ export function ConfigPanel({ config, onChange, className = '' }: ConfigPanelPro
     onChange({ ...config, sizes });
   };
 
+
   const presets = [
-    { name: 'Quick Test', config: { sizes: [10, 50], samples: 1000, reps: 100, degree: 8 } },
-    { name: 'Medium Test', config: { sizes: [10, 50, 200], samples: 5000, reps: 200, degree: 8 } },
-    { name: 'Full Test', config: { sizes: [10, 50, 200, 500, 1000], samples: 20000, reps: 1000, degree: 8 } },
-    { name: 'Stress Test', config: { sizes: [100, 500, 1000, 5000], samples: 50000, reps: 2000, degree: 10 } },
+    { name: 'Quick Test', config: { sizes: [10, 50], samples: 1000, reps: 100, degree: 8, mutations: 100, trials: 3 } },
+    { name: 'Medium Test', config: { sizes: [10, 50, 200], samples: 5000, reps: 200, degree: 8, mutations: 500, trials: 5 } },
+    { name: 'Full Test', config: { sizes: [10, 50, 200, 500, 1000], samples: 20000, reps: 1000, degree: 8, mutations: 1000, trials: 10 } },
+    { name: 'Stress Test', config: { sizes: [100, 500, 1000, 5000], samples: 50000, reps: 2000, degree: 10, mutations: 2000, trials: 5 } },
   ];
 
   return (
@@ -38,6 +43,24 @@ export function ConfigPanel({ config, onChange, className = '' }: ConfigPanelPro
             />
           </div>
           
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Graph Topology
+            </label>
+            <select
+              value={config.topology}
+              onChange={(e) => onChange({ ...config, topology: e.target.value })}
+              className="w-full px-4 py-3 bg-black/20 border border-white/30 rounded-xl text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-400"
+            >
+              {TOPOLOGIES.map(t => (
+                <option key={t.id} value={t.id} className="text-gray-900">{t.label}</option>
+              ))}
+            </select>
+            <div className="text-xs text-blue-300 mt-1">
+              {getTopology(config.topology)?.description}
+            </div>
+          </div>
+          
           <div>
             <label className="block text-sm font-medium text-white mb-2">
               Lookup Samples: {config.samples.toLocaleString()}
@@ -56,6 +79,69 @@ export function ConfigPanel({ config, onChange, className = '' }: ConfigPanelPro
               <span>100K</span>
             </div>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Random Seed
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                value={config.seed}
+                onChange={(e) => {
+                  const seed = parseInt(e.target.value);
+                  if (!isNaN(seed) && seed >= 0) onChange({ ...config, seed: seed >>> 0 });
+                }}
+                className="w-full px-4 py-3 bg-black/20 border border-white/30 rounded-xl text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-400"
+              />
+              <button
+                onClick={() => onChange({ ...config, seed: randomSeed() })}
+                title="Pick a new random seed"
+                className="px-4 py-2 border border-white/30 rounded-xl text-white hover:bg-white/10 bg-black/20"
+              >
+                <Shuffle size={18} />
+              </button>
+            </div>
+            <div className="text-xs text-blue-300 mt-1">
+              Same seed = same graphs and query samples
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Graph Mode
+            </label>
+            <div className="flex flex-wrap gap-4 text-sm text-white">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={config.multigraph}
+                  onChange={(e) => onChange({ ...config, multigraph: e.target.checked })}
+                />
+                Multigraph (keep parallel edges)
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={config.selfLoops}
+                  onChange={(e) => onChange({ ...config, selfLoops: e.target.checked })}
+                />
+                Allow self-loops
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={config.verify}
+                  onChange={(e) => onChange({ ...config, verify: e.target.checked })}
+                />
+                Verify structures agree before timing
+              </label>
+            </div>
+            <div className="text-xs text-blue-300 mt-1">
+              Every structure applies the same rules; dropped edges are counted in the results
+            </div>
+          </div>
         </div>
 
         <div className="space-y-4">
@@ -96,6 +182,53 @@ export function ConfigPanel({ config, onChange, className = '' }: ConfigPanelPro
               <span>20</span>
             </div>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Mutation Ops: {config.mutations.toLocaleString()}
+            </label>
+            <input
+              type="range"
+              min="10"
+              max="5000"
+              step="10"
+              value={config.mutations}
+              onChange={(e) => onChange({ ...config, mutations: parseInt(e.target.value) })}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-blue-300">
+              <span>10</span>
+              <span>5K</span>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Trials: {config.trials} (+{config.warmup} warmup)
+            </label>
+            <input
+              type="range"
+              min="1"
+              max="30"
+              step="1"
+              value={config.trials}
+              onChange={(e) => onChange({ ...config, trials: parseInt(e.target.value) })}
+              className="w-full"
+            />
+            <input
+              type="range"
+              min="0"
+              max="10"
+              step="1"
+              value={config.warmup}
+              onChange={(e) => onChange({ ...config, warmup: parseInt(e.target.value) })}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-blue-300">
+              <span>Timed trials / warmup passes</span>
+              <span>30 / 10</span>
+            </div>
+          </div>
         </div>
       </div>
 
@@ -116,11 +249,7 @@ export function ConfigPanel({ config, onChange, className = '' }: ConfigPanelPro
 
       <div className="mt-6 p-4 bg-gradient-to-r from-blue-500/20 to-indigo-500/20 border border-blue-400/30 rounded-xl">
         <div className="text-sm text-white font-medium">
-          <strong>Estimated operations:</strong> {(
-            config.sizes.reduce((sum, n) => 
-              sum + (config.samples * 4) + (config.reps * n * 2 * 4), 0
-            )
-          ).toLocaleString()}
+          <strong>Estimated operations:</strong> {estimateOperations(config).toLocaleString()}
         </div>
         <div className="text-xs text-blue-200 mt-1">
           Higher values = more accurate but slower results
@@ -1,5 +1,7 @@
 import { BenchmarkConfig } from '@/app/page';
-import { Settings, Cpu, HardDrive, Timer, Network } from 'lucide-react';
+import { getStructures } from '@/lib/structures';
+import { getTopology } from '@/lib/generators';
+import { Settings, Cpu, HardDrive, Timer, Network, GitBranch, Shuffle, Repeat, Share2, Layers } from 'lucide-react';
 
 interface ConfigurationPanelProps {
   config: BenchmarkConfig;
@@ -24,6 +26,16 @@ export function ConfigurationPanel({ config }: ConfigurationPanelProps) {
           </div>
         </div>
         
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-indigo-500/20 flex items-center justify-center">
+            <Share2 size={16} className="text-indigo-300" />
+          </div>
+          <div>
+            <div className="text-blue-200 text-sm font-medium">Topology</div>
+            <div className="text-white font-semibold">{getTopology(config.topology)?.label ?? config.topology}</div>
+          </div>
+        </div>
+        
         <div className="flex items-center gap-3">
           <div className="w-8 h-8 rounded-lg bg-green-500/20 flex items-center justify-center">
             <Timer size={16} className="text-green-300" />
@@ -53,27 +65,59 @@ export function ConfigurationPanel({ config }: ConfigurationPanelProps) {
             <div className="text-white font-semibold">{config.degree}</div>
           </div>
         </div>
-      </div>
 
-      <div className="mt-6 p-4 bg-black/20 rounded-lg">
-        <h3 className="text-white font-medium mb-3">Data Structures</h3>
-        <div className="grid grid-cols-2 gap-2 text-xs">
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded bg-blue-500"></div>
-            <span className="text-blue-200">AM: Adjacency Matrix</span>
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-pink-500/20 flex items-center justify-center">
+            <GitBranch size={16} className="text-pink-300" />
+          </div>
+          <div>
+            <div className="text-blue-200 text-sm font-medium">Mutation Ops</div>
+            <div className="text-white font-semibold">{config.mutations.toLocaleString()}</div>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-yellow-500/20 flex items-center justify-center">
+            <Shuffle size={16} className="text-yellow-300" />
           </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded bg-green-500"></div>
-            <span className="text-green-200">AL: Adjacency List</span>
+          <div>
+            <div className="text-blue-200 text-sm font-medium">Random Seed</div>
+            <div className="text-white font-semibold">{config.seed}</div>
           </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded bg-purple-500"></div>
-            <span className="text-purple-200">AM+AL: Combined</span>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-cyan-500/20 flex items-center justify-center">
+            <Repeat size={16} className="text-cyan-300" />
           </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded bg-orange-500"></div>
-            <span className="text-orange-200">OOP: Object-Oriented</span>
+          <div>
+            <div className="text-blue-200 text-sm font-medium">Trials</div>
+            <div className="text-white font-semibold">{config.trials} (+{config.warmup} warmup)</div>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-rose-500/20 flex items-center justify-center">
+            <Layers size={16} className="text-rose-300" />
           </div>
+          <div>
+            <div className="text-blue-200 text-sm font-medium">Graph Mode</div>
+            <div className="text-white font-semibold">
+              {config.multigraph ? 'Multigraph' : 'Simple'}, self-loops {config.selfLoops ? 'allowed' : 'dropped'}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6 p-4 bg-black/20 rounded-lg">
+        <h3 className="text-white font-medium mb-3">Data Structures</h3>
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          {getStructures().map(s => (
+            <div key={s.name} className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded" style={{ backgroundColor: s.color }}></div>
+              <span className="text-blue-200">{s.name}: {s.label}</span>
+            </div>
+          ))}
         </div>
       </div>
     </div>
@@ -4,75 +4,63 @@ import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
 } from 'recharts';
 import { Lightbulb } from 'lucide-react';
-import { BenchmarkResult } from '@/app/page';
+import { getStructure, getStructures } from '@/lib/structures';
+import { METRICS, metricKey, statKey, type MetricId } from '@/lib/metrics';
+import { describeRuntime, type ResultRun } from '@/lib/results';
 
 interface ResultsVisualizationProps {
-  results: BenchmarkResult[];
+  runs: ResultRun[];   // the current run and/or imported files; more than one overlays them
 }
 
-type MetricType = 'memory' | 'lookup' | 'traversal-out' | 'traversal-in' | 'sparsity';
+type ChartType = MetricId | 'sparsity';
 
-const COLORS = {
-  'AM': '#3B82F6',     // Blue
-  'AL': '#10B981',     // Green
-  'AM+AL': '#8B5CF6',  // Purple
-  'OOP': '#F59E0B'     // Orange
-};
+// With several runs, color tells the runs apart and the dash pattern the structures
+const RUN_COLORS = ['#3B82F6', '#F59E0B', '#10B981', '#EF4444', '#8B5CF6', '#06B6D4', '#EC4899', '#84CC16'];
+const STRUCTURE_DASHES = ['', '6 3', '2 3', '10 3 2 3', '1 5', '12 6'];
 
-export function ResultsVisualization({ results }: ResultsVisualizationProps) {
+const structureColor = (name: string) => getStructure(name)?.color ?? '#6B7280';
+const formatValue = (value: number, digits: number) => Number.isFinite(value) ? value.toFixed(digits) : '–';
 
-  const getChartData = (metricType: MetricType) => {
-    return results.map(result => {
-      const base = { n: result.n, edges: result.edges };
-      
-      switch (metricType) {
-        case 'memory':
-          return {
-            ...base,
-            'AM': result['MB: AM'],
-            'AL': result['MB: AL'],
-            'AM+AL': result['MB: AM+AL'],
-            'OOP': result['MB: OOP']
-          };
-        case 'lookup':
-          return {
-            ...base,
-            'AM': result['ns/op hasEdge AM'],
-            'AL': result['ns/op hasEdge AL'],
-            'AM+AL': result['ns/op hasEdge AM+AL'],
-            'OOP': result['ns/op hasEdge OOP']
-          };
-        case 'traversal-out':
-          return {
-            ...base,
-            'AM': result['ns/op traverseOut AM'],
-            'AL': result['ns/op traverseOut AL'],
-            'AM+AL': result['ns/op traverseOut AM+AL'],
-            'OOP': result['ns/op traverseOut OOP']
-          };
-        case 'traversal-in':
-          return {
-            ...base,
-            'AM': result['ns/op traverseIn AM'],
-            'AL': result['ns/op traverseIn AL'],
-            'AM+AL': result['ns/op traverseIn AM+AL'],
-            'OOP': result['ns/op traverseIn OOP']
-          };
-        case 'sparsity':
-          return {
-            ...base,
-            'Sparsity': result.sparsity
-          };
+export function ResultsVisualization({ runs }: ResultsVisualizationProps) {
+  const overlay = runs.length > 1;
+  // Registered structures first, in registry order, then any only an imported file has
+  const names = new Set(runs.flatMap(run => run.structures));
+  const structures = [
+    ...getStructures().map(s => s.name).filter(name => names.has(name)),
+    ...[...names].filter(name => !getStructure(name)),
+  ];
+  // Set when the browser offered no heap measurement API and memory fell back to estimateBytes
+  const memoryEstimated = runs.some(run => run.results.some(r => r.memoryEstimated));
+
+  const runColor = (runIndex: number) => RUN_COLORS[runIndex % RUN_COLORS.length];
+  const structureDash = (name: string) => STRUCTURE_DASHES[structures.indexOf(name) % STRUCTURE_DASHES.length];
+  const seriesName = (runIndex: number, name: string) => overlay ? `${name} · ${runs[runIndex].label}` : name;
+
+  // One point per graph size; runs with different sizes leave gaps, bridged by connectNulls
+  const getChartData = (chartType: ChartType) => {
+    const points = new Map<number, Record<string, number | null>>();
+    runs.forEach((run, i) => {
+      for (const result of run.results) {
+        const point = points.get(result.n) ?? { n: result.n };
+        points.set(result.n, point);
+        if (chartType === 'sparsity') {
+          point[seriesName(i, 'Sparsity')] = result.sparsity;
+          continue;
+        }
+        for (const name of run.structures) {
+          const value = result[metricKey(chartType, name)];
+          point[seriesName(i, name)] = Number.isFinite(value) ? value : null;
+        }
       }
     });
+    return [...points.values()].sort((a, b) => a.n! - b.n!);
   };
 
-
-  const renderChart = (metricType: MetricType, title: string, unit: string) => {
-    const chartData = getChartData(metricType);
+  const renderChart = (chartType: ChartType, title: string, unit: string) => {
+    const chartData = getChartData(chartType);
     
     return (
-      <div className="bg-white/95 backdrop-blur border border-white/20 rounded-2xl p-4 shadow-xl">
+      <div key={chartType} className="bg-white/95 backdrop-blur border border-white/20 rounded-2xl p-4 shadow-xl">
         <h3 className="text-lg font-bold text-gray-800 mb-4">{title}</h3>
         
         <ResponsiveContainer width="100%" height={300}>
@@ -89,33 +77,38 @@ export function ResultsVisualization({ results }: ResultsVisualizationProps) {
             />
             <Tooltip 
               formatter={(value: number, name: string) => [
-                `${Number(value).toFixed(2)} ${unit}`,
+                `${formatValue(Number(value), 2)} ${unit}`,
                 name
               ]}
               labelFormatter={(value) => `Nodes: ${value}`}
             />
             <Legend />
             
-            {metricType === 'sparsity' ? (
-              <Line
-                key="Sparsity"
-                type="monotone"
-                dataKey="Sparsity"
-                stroke="#6366F1"
-                strokeWidth={2}
-                dot={{ r: 3 }}
-              />
-            ) : (
-              Object.entries(COLORS).map(([key, color]) => (
+            {chartType === 'sparsity' ? (
+              runs.map((run, i) => (
                 <Line
-                  key={key}
+                  key={`${run.id}-sparsity`}
                   type="monotone"
-                  dataKey={key}
-                  stroke={color}
+                  dataKey={seriesName(i, 'Sparsity')}
+                  stroke={overlay ? runColor(i) : '#6366F1'}
                   strokeWidth={2}
                   dot={{ r: 3 }}
+                  connectNulls
                 />
               ))
+            ) : (
+              runs.flatMap((run, i) => run.structures.map(name => (
+                <Line
+                  key={`${run.id}-${name}`}
+                  type="monotone"
+                  dataKey={seriesName(i, name)}
+                  stroke={overlay ? runColor(i) : structureColor(name)}
+                  strokeDasharray={overlay ? structureDash(name) : undefined}
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                  connectNulls
+                />
+              )))
             )}
           </LineChart>
         </ResponsiveContainer>
@@ -125,56 +118,101 @@ export function ResultsVisualization({ results }: ResultsVisualizationProps) {
 
   return (
     <div className="space-y-6">
-      {/* All 5 charts in a responsive grid */}
+      {/* Which runs are shown and what they were measured on */}
+      <div className="bg-black/20 backdrop-blur px-4 py-2 rounded-lg text-xs text-blue-200 space-y-1 break-words">
+        {runs.map((run, i) => (
+          <div key={run.id}>
+            {overlay && <span className="inline-block w-3 h-3 mr-2 rounded-sm align-middle" style={{ background: runColor(i) }} />}
+            <span className="font-medium text-white">{overlay ? run.label : 'Measured on'}{run.timestamp && overlay ? ` (${run.timestamp})` : ''}: </span>
+            {describeRuntime(run.runtime)}
+          </div>
+        ))}
+        {overlay && (
+          <div className="pt-1 flex flex-wrap gap-4">
+            {structures.map(name => (
+              <span key={name} className="flex items-center gap-1">
+                <svg width="28" height="6"><line x1="0" y1="3" x2="28" y2="3" stroke="white" strokeWidth="2" strokeDasharray={structureDash(name)} /></svg>
+                {name}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* One chart per metric plus sparsity in a responsive grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-        {renderChart('memory', 'Memory Usage', 'MB')}
-        {renderChart('lookup', 'Lookup Performance', 'ns/op')}
-        {renderChart('traversal-out', 'Output Traversal', 'ns/op')}
-        {renderChart('traversal-in', 'Input Traversal', 'ns/op')}
+        {METRICS.filter(m => m.group !== 'workload').map(m => renderChart(
+          m.id,
+          m.id === 'memory' && memoryEstimated ? `${m.title} (estimated)` : m.title,
+          m.unit
+        ))}
         {renderChart('sparsity', 'Graph Sparsity', '%')}
       </div>
 
-      {/* Summary table */}
-      <div className="bg-white/95 backdrop-blur border border-white/20 rounded-2xl p-6 shadow-xl">
-        <h3 className="text-xl font-bold text-gray-800 mb-6">Detailed Results Summary</h3>
+      {/* Algorithm workloads: full-run time and time per examined edge */}
+      <h3 className="text-2xl font-bold text-white">Algorithm Workloads</h3>
+      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+        {METRICS.filter(m => m.group === 'workload').map(m => renderChart(m.id, m.title, m.unit))}
+      </div>
+
+      {/* Summary table, one per run */}
+      {runs.map(run => (
+        <div key={run.id} className="bg-white/95 backdrop-blur border border-white/20 rounded-2xl p-6 shadow-xl">
+          <h3 className="text-xl font-bold text-gray-800 mb-6">Detailed Results Summary{overlay ? `: ${run.label}` : ''}</h3>
         
-        <div className="overflow-x-auto">
-          <table className="w-full text-sm">
-            <thead>
-              <tr className="border-b border-gray-300">
-                <th className="text-left py-2 text-gray-900 font-semibold">Nodes</th>
-                <th className="text-left py-2 text-gray-900 font-semibold">Edges</th>
-                <th className="text-left py-2 text-gray-900 font-semibold">Sparsity (%)</th>
-                <th className="text-left py-2 font-semibold" style={{color: COLORS.AM}}>Memory AM (MB)</th>
-                <th className="text-left py-2 font-semibold" style={{color: COLORS.AL}}>Memory AL (MB)</th>
-                <th className="text-left py-2 font-semibold" style={{color: COLORS['AM+AL']}}>Memory AM+AL (MB)</th>
-                <th className="text-left py-2 font-semibold" style={{color: COLORS.OOP}}>Memory OOP (MB)</th>
-                <th className="text-left py-2 font-semibold" style={{color: COLORS.AM}}>Lookup AM (ns/op)</th>
-                <th className="text-left py-2 font-semibold" style={{color: COLORS.AL}}>Lookup AL (ns/op)</th>
-                <th className="text-left py-2 font-semibold" style={{color: COLORS['AM+AL']}}>Lookup AM+AL (ns/op)</th>
-                <th className="text-left py-2 font-semibold" style={{color: COLORS.OOP}}>Lookup OOP (ns/op)</th>
-              </tr>
-            </thead>
-            <tbody>
-              {results.map((result, i) => (
-                <tr key={i} className="border-b border-gray-200">
-                  <td className="py-2 font-medium text-gray-900">{result.n}</td>
-                  <td className="py-2 text-gray-900">{result.edges}</td>
-                  <td className="py-2 text-gray-900">{result.sparsity}%</td>
-                  <td className="py-2 text-gray-900">{result['MB: AM'].toFixed(3)}</td>
-                  <td className="py-2 text-gray-900">{result['MB: AL'].toFixed(3)}</td>
-                  <td className="py-2 text-gray-900">{result['MB: AM+AL'].toFixed(3)}</td>
-                  <td className="py-2 text-gray-900">{result['MB: OOP'].toFixed(3)}</td>
-                  <td className="py-2 text-gray-900">{result['ns/op hasEdge AM'].toFixed(1)}</td>
-                  <td className="py-2 text-gray-900">{result['ns/op hasEdge AL'].toFixed(1)}</td>
-                  <td className="py-2 text-gray-900">{result['ns/op hasEdge AM+AL'].toFixed(1)}</td>
-                  <td className="py-2 text-gray-900">{result['ns/op hasEdge OOP'].toFixed(1)}</td>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-300">
+                  <th className="text-left py-2 text-gray-900 font-semibold">Nodes</th>
+                  <th className="text-left py-2 text-gray-900 font-semibold">Edges</th>
+                  <th className="text-left py-2 text-gray-900 font-semibold">Duplicates / Self-loops in Input</th>
+                  <th className="text-left py-2 text-gray-900 font-semibold">Sparsity (%)</th>
+                  {run.structures.map(name => (
+                    <th key={`mem-${name}`} className="text-left py-2 font-semibold" style={{color: structureColor(name)}}>Memory {name} ({run.results.some(r => r.memoryEstimated) ? 'est. ' : ''}MB)</th>
+                  ))}
+                  {run.structures.map(name => (
+                    <th key={`lookup-${name}`} className="text-left py-2 font-semibold" style={{color: structureColor(name)}}>Lookup {name} (ns/op ±95%)</th>
+                  ))}
                 </tr>
-              ))}
-            </tbody>
-          </table>
+              </thead>
+              <tbody>
+                {run.results.map((result, i) => (
+                  <tr key={i} className="border-b border-gray-200">
+                    <td className="py-2 font-medium text-gray-900">{result.n}</td>
+                    <td className="py-2 text-gray-900">{result.edges}</td>
+                    <td className="py-2 text-gray-900">{formatValue(result.duplicates, 0)} / {formatValue(result.selfLoops, 0)}</td>
+                    <td className="py-2 text-gray-900">{result.sparsity}%</td>
+                    {run.structures.map(name => (
+                      <td key={`mem-${name}`} className="py-2 text-gray-900">{formatValue(result[metricKey('memory', name)], 3)}</td>
+                    ))}
+                    {run.structures.map(name => (
+                      <td key={`lookup-${name}`} className="py-2 text-gray-900">
+                        {formatValue(result[metricKey('hasEdge', name)], 1)}
+                        {Number.isFinite(result[statKey('hasEdge', name, 'ci95')]) && (
+                          <span className="text-gray-500 text-xs"> ±{result[statKey('hasEdge', name, 'ci95')].toFixed(1)}</span>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {run.results.some(r => r.memoryEstimated) && (
+            <p className="mt-4 text-xs text-gray-500">
+              Memory is estimated from each structure&apos;s layout: this browser exposes neither
+              performance.measureUserAgentSpecificMemory() (cross-origin isolated pages) nor performance.memory (Chromium).
+            </p>
+          )}
+          {run.memorySource === 'performance.memory' && (
+            <p className="mt-4 text-xs text-gray-500">
+              Memory comes from Chromium&apos;s performance.memory, read on the page for the benchmark worker: it is
+              bucketed and may leave out the worker&apos;s heap, so small deltas can read as 0.
+            </p>
+          )}
         </div>
-      </div>
+      ))}
 
       {/* Analysis insights */}
       <div className="bg-gradient-to-r from-blue-500/20 to-indigo-500/20 backdrop-blur border border-blue-400/30 rounded-2xl p-6">
@@ -1,258 +1,131 @@
-// Real benchmarking logic ported from src/profile.ts
-// Adapted for browser environment
-
-// -------------------- Utilities --------------------
-function sleep(ms: number): Promise<void> { 
-  return new Promise(r => setTimeout(r, ms)); 
+// Benchmark core shared by the CLI (src/commands/run.ts) and the web worker (lib/benchmark.worker.ts).
+// Nothing here touches Node or browser APIs directly: the clock, heap readings and GC come from
+// a BenchmarkEnvironment (lib/environment.node.ts, lib/environment.browser.ts), so both entry
+// points run the same measurement code and produce comparable rows.
+
+import { getStructures, applyGraphMode, countEdges, type Edge, type GraphMode, type GraphStructure, type StructureDefinition } from './structures';
+import { METRICS, emptySamples, metricKey, statKey, type MetricId } from './metrics';
+import { summarize, STAT_COLUMNS } from './stats';
+import { generateEdges } from './generators';
+import { WORKLOADS, type WorkloadId } from './workloads';
+import type { LoadedGraph } from './importers';
+import { createRandom, deriveSeed, EDGE_STREAM, QUERY_STREAM, VERIFY_STREAM, type Random } from './random';
+import { verifyStructures, type VerificationSummary } from './verify';
+
+// -------------------- Environment adapters --------------------
+// Where the 'MB:' columns come from, recorded with the results
+export type MemorySource = 'measureUserAgentSpecificMemory' | 'performance.memory' | 'process.memoryUsage' | 'estimate';
+
+export interface MemoryAdapter {
+  source: MemorySource;
+  // Current heap size; absent for 'estimate', which uses each structure's estimateBytes
+  readBytes?: () => Promise<number>;
+  // Readings take seconds (measureUserAgentSpecificMemory waits for the next GC), so they are
+  // shared: one baseline per size, and each build's reading is also its history's baseline
+  slow?: boolean;
 }
 
-function nowMs(): number {
-  return performance.now();
+// What the numbers were measured on, saved with the results so runs from different
+// machines, runtimes or code versions can be told apart. Fields a runtime does not
+// expose (browsers hide the CPU model) are null.
+export interface RuntimeInfo {
+  platform: 'node' | 'browser';
+  version: string;            // Node and V8 versions, or the browser's user agent
+  cpu: string | null;
+  cores: number | null;
+  memoryGB: number | null;    // total system memory; browsers round it (navigator.deviceMemory)
+  os: string | null;
+  gcExposed: boolean;
+  commit: string | null;      // git commit of the benchmarked code, '-dirty' with local changes
 }
 
-// Browser memory measurement (approximation)
-function readMemoryMB(): number {
-  const perf = performance as unknown as { memory?: { usedJSHeapSize: number } };
-  if ('memory' in performance && perf.memory) {
-    return perf.memory.usedJSHeapSize / (1024 * 1024);
-  }
-  // Fallback - estimate memory based on structure size for relative comparison
-  return Math.random() * 0.1; // Small random value to show relative differences
+export interface BenchmarkEnvironment {
+  now: () => number;      // monotonic clock in milliseconds
+  memory: MemoryAdapter;
+  gc?: () => void;        // forces a collection where the runtime allows it (node --expose-gc)
+  runtime: RuntimeInfo;
 }
 
-// Helper to measure memory delta around a builder function
-async function measureMemoryDeltaMB(fnBuild: () => GraphStructure, n: number, edges: Edge[]): Promise<MemoryResult> {
-  const structure = fnBuild();
-  
-  // Estimate memory usage based on data structures
-  let estimatedMB = 0;
-  
-  if ('_bits' in structure) {
-    // AM: Uint32Array for n*n bits
-    const bitsNeeded = n * n;
-    const uint32sNeeded = Math.ceil(bitsNeeded / 32);
-    estimatedMB = (uint32sNeeded * 4) / (1024 * 1024);
-  } else if ('_out' in structure && '_in' in structure) {
-    // AL or AM+AL: Arrays + Sets
-    const avgDegree = edges.length / n;
-    const arrayMemory = n * avgDegree * 8; // 8 bytes per number reference
-    const setMemory = n * avgDegree * 16; // Sets have overhead
-    estimatedMB = (arrayMemory + setMemory) / (1024 * 1024);
-    
-    if ('_am' in structure) {
-      // AM+AL: add AM memory
-      const bitsNeeded = n * n;
-      const uint32sNeeded = Math.ceil(bitsNeeded / 32);
-      estimatedMB += (uint32sNeeded * 4) / (1024 * 1024);
-    }
-  } else if ('_net' in structure) {
-    // OOP: Objects have significant overhead
-    const nodeCount = n;
-    const linkCount = edges.length;
-    const nodeMemory = nodeCount * 200; // ~200 bytes per node object with arrays
-    const linkMemory = linkCount * 100;  // ~100 bytes per link object
-    estimatedMB = (nodeMemory + linkMemory) / (1024 * 1024);
-  }
-  
-  return { deltaMB: Math.max(0.001, estimatedMB), structure };
+// -------------------- Utilities --------------------
+function sleep(ms: number): Promise<void> { 
+  return new Promise(r => setTimeout(r, ms)); 
 }
 
-// Random helper
-function randInt(n: number): number { 
-  return Math.floor(Math.random() * n); 
-}
+// The environment of the run in progress, set by runBenchmark
+let env: BenchmarkEnvironment;
 
-// Generate a pseudo-random sparse DAG-ish edge set with average out-degree d.
-function genEdges(n: number, avgOutDeg: number): Edge[] {
-  const m = Math.max(0, Math.floor(n * avgOutDeg));
-  const edges: Edge[] = [];
-  for (let i = 0; i < m; i++) {
-    const u = randInt(n - 1);
-    const v = u + 1 + randInt(n - 1 - u); // ensures v > u
-    edges.push([u, v]);
-  }
-  return edges;
+function nowMs(): number {
+  return env.now();
 }
 
-// -------------------- Graph Structures --------------------
-
-// AM bitset: compact n*n bits using Uint32Array
-function makeAM(n: number, edges: Edge[]): GraphStructure {
-  const bits = new Uint32Array(Math.ceil((n * n) / 32));
-  
-  const set = (u: number, v: number) => {
-    const idx = u * n + v;
-    bits[idx >>> 5] |= (1 << (idx & 31));
-  };
-  
-  const has = (u: number, v: number): boolean => {
-    const idx = u * n + v;
-    return Boolean((bits[idx >>> 5] >>> (idx & 31)) & 1);
-  };
-  
-  const outNeighbors = (u: number) => {
-    const arr = [];
-    const base = u * n;
-    for (let v = 0; v < n; v++) {
-      const idx = base + v;
-      if ((bits[idx >>> 5] >>> (idx & 31)) & 1) arr.push(v);
-    }
-    return arr;
-  };
-  
-  const inNeighbors = (v: number) => {
-    const arr = [];
-    for (let u = 0; u < n; u++) {
-      const idx = u * n + v;
-      if ((bits[idx >>> 5] >>> (idx & 31)) & 1) arr.push(u);
-    }
-    return arr;
-  };
-  
-  for (const [u, v] of edges) set(u, v);
-  return { n, has, outNeighbors, inNeighbors, _bits: bits };
+// Give the runtime a moment between phases to stabilize, collecting garbage where possible.
+// Two collections: ArrayBuffer backing stores freed by the first are only released
+// (and leave the external memory count) once it has been swept.
+async function settle(): Promise<void> {
+  await sleep(10);
+  env.gc?.();
+  await sleep(10);
+  env.gc?.();
 }
 
-// AL: arrays of out + in neighbors with Sets for fast lookup
-function makeAL(n: number, edges: Edge[]): GraphStructure {
-  const out = Array.from({ length: n }, () => [] as number[]);
-  const inn = Array.from({ length: n }, () => [] as number[]);
-  
-  for (const [u, v] of edges) {
-    out[u].push(v);
-    inn[v].push(u);
-  }
-  
-  // Build Sets for O(1) lookup
-  const outSet = out.map(arr => new Set(arr));
-  
-  const has = (u: number, v: number) => outSet[u].has(v);
-  const outNeighbors = (u: number) => out[u];
-  const inNeighbors = (v: number) => inn[v];
-  
-  return { n, has, outNeighbors, inNeighbors, _out: out, _in: inn };
-}
+// Random helper - reseeded per graph size and phase by runBenchmark
+let random: Random = Math.random;
 
-// AM + AL "synced" - maintains both representations
-function makeAM_AL(n: number, edges: Edge[]): GraphStructure {
-  const bits = new Uint32Array(Math.ceil((n * n) / 32));
-  const out = Array.from({ length: n }, () => [] as number[]);
-  const inn = Array.from({ length: n }, () => [] as number[]);
-  
-  for (const [u, v] of edges) {
-    // Update AM
-    const idx = u * n + v;
-    bits[idx >>> 5] |= (1 << (idx & 31));
-    
-    // Update AL
-    out[u].push(v);
-    inn[v].push(u);
-  }
-  
-  const outSet = out.map(arr => new Set(arr));
-  
-  const hasAM = (u: number, v: number): boolean => {
-    const idx = u * n + v;
-    return Boolean((bits[idx >>> 5] >>> (idx & 31)) & 1);
-  };
-  
-  const has = (u: number, v: number): boolean => {
-    // Use both to prevent dead code elimination
-    const amResult = hasAM(u, v);
-    const alResult = outSet[u].has(v);
-    return amResult || alResult; // Should be equivalent
-  };
-  
-  const outNeighbors = (u: number) => out[u];
-  const inNeighbors = (v: number) => inn[v];
-  
-  return { n, has, outNeighbors, inNeighbors, _out: out, _in: inn, _am: { _bits: bits } };
+function randInt(n: number): number { 
+  return Math.floor(random() * n); 
 }
 
-// OOP / "LiteGraph-ish"
-function makeOOP(n: number, edges: Edge[]): GraphStructure {
-  class MyLink { 
-    from: number;
-    to: number;
-    constructor(from: number, to: number) { 
-      this.from = from; 
-      this.to = to; 
-    } 
+// -------------------- Memory measurement --------------------
+// Heap delta around the build. The structure is returned so it stays reachable until
+// after the second reading. Browser heap readings are coarse (performance.memory is bucketed
+// unless Chrome runs with --enable-precise-memory-info), so tiny graphs may read as 0.
+// `baselineBytes` is the size's shared reading for slow sources, null otherwise.
+async function measureMemoryDeltaMB(
+  def: StructureDefinition,
+  n: number,
+  edges: Edge[],
+  mode: GraphMode,
+  baselineBytes: number | null
+): Promise<MemoryResult> {
+  const { readBytes } = env.memory;
+  if (!readBytes) {
+    // Structures without an estimator are approximated with the AL layout (arrays + Sets)
+    const bytes = def.estimateBytes ? def.estimateBytes(n, edges.length) : edges.length * 24;
+    return { deltaMB: bytes / (1024 * 1024), structure: def.build(n, edges, mode), afterBytes: null };
   }
-  
-  class MyNode {
-    id: number;
-    outputs: MyLink[][];
-    inputs: MyLink[][];
-    
-    constructor(id: number) {
-      this.id = id;
-      this.outputs = [];
-      this.inputs = [];
-    }
-  }
-  
-  class MyNetwork {
-    nodes: MyNode[];
-    links: MyLink[];
-    
-    constructor() { 
-      this.nodes = []; 
-      this.links = []; 
-    }
-    
-    addNode(node: MyNode) { 
-      this.nodes[node.id] = node; 
-    }
-    
-    connect(u: number, v: number) {
-      const link = new MyLink(u, v);
-      if (!this.nodes[u].outputs[0]) this.nodes[u].outputs[0] = [];
-      this.nodes[u].outputs[0].push(link);
 
-      if (!this.nodes[v].inputs[0]) this.nodes[v].inputs[0] = [];
-      this.nodes[v].inputs[0].push(link);
+  await settle(); // Give the previous structure a chance to be collected
+  const before = baselineBytes ?? await readBytes();
+  const structure = def.build(n, edges, mode);
+  await settle(); // Drop the build's temporaries so only the structure is counted
+  const after = await readBytes();
+  return { deltaMB: Math.max(0, after - before) / (1024 * 1024), structure, afterBytes: after };
+}
 
-      this.links.push(link);
-    }
-    
-    hasEdge(u: number, v: number): boolean {
-      const bucket = this.nodes[u].outputs[0];
-      if (!bucket) return false;
-      for (let i = 0; i < bucket.length; i++) {
-        if (bucket[i].to === v) return true;
-      }
-      return false;
-    }
-    
-    outNeighbors(u: number): number[] {
-      const bucket = this.nodes[u].outputs[0];
-      if (!bucket) return [];
-      const out = new Array(bucket.length);
-      for (let i = 0; i < bucket.length; i++) out[i] = bucket[i].to;
-      return out;
-    }
-    
-    inNeighbors(v: number): number[] {
-      const bucket = this.nodes[v].inputs[0];
-      if (!bucket) return [];
-      const inn = new Array(bucket.length);
-      for (let i = 0; i < bucket.length; i++) inn[i] = bucket[i].from;
-      return inn;
-    }
+// Versions retained for the 'MB history:' columns
+const VERSION_HISTORY = 100;
+
+// Heap held by an undo history: VERSION_HISTORY rounds of one added edge followed by a
+// retained clone(). Persistent structures share everything the edit did not touch; deep
+// copies hold the whole graph each time. Null without a heap reading, since no per-structure
+// estimate covers sharing. Slow sources pass the reading taken after the build as `beforeBytes`.
+async function measureVersionsMB(struct: GraphStructure, n: number, beforeBytes: number | null): Promise<number | null> {
+  const { readBytes } = env.memory;
+  if (!readBytes || !struct.clone) return null;
+  const pairs = Array.from({ length: VERSION_HISTORY }, () => [randInt(n), randInt(n)]);
+
+  await settle();
+  const before = beforeBytes ?? await readBytes();
+  const history: GraphStructure[] = [];
+  for (const [u, v] of pairs) {
+    struct.addEdge(u, v);
+    history.push(struct.clone());
   }
-
-  const net = new MyNetwork();
-  for (let i = 0; i < n; i++) net.addNode(new MyNode(i));
-  for (const [u, v] of edges) net.connect(u, v);
-
-  return {
-    n,
-    has: (u: number, v: number) => net.hasEdge(u, v),
-    outNeighbors: (u: number) => net.outNeighbors(u),
-    inNeighbors: (v: number) => net.inNeighbors(v),
-    _net: net,
-  };
+  await settle();
+  const after = await readBytes();
+  // Keeps the history reachable until after the second reading
+  if (history.length !== VERSION_HISTORY) console.log('impossible');
+  return Math.max(0, after - before) / (1024 * 1024);
 }
 
 // -------------------- Microbench helpers --------------------
@@ -274,127 +147,332 @@ function benchHasEdge(struct: GraphStructure, n: number, samples: number): Bench
   return { ms: (t1 - t0), hits: cnt };
 }
 
-function benchTraversals(struct: GraphStructure, n: number, reps: number): TraversalResult {
-  // Output traversal
+// Weight lookups on existing edges, then "links on output slot k" queries over the
+// slots the graph actually uses
+function benchAttributes(struct: GraphStructure, n: number, edges: Edge[], samples: number): AttributeResult {
+  const pairs = new Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const e = edges.length ? edges[randInt(edges.length)] : [0, 0];
+    pairs[i] = [e[0], e[1]];
+  }
+  let slotCount = 1;
+  for (const e of edges) if (e[2] && e[2].outSlot >= slotCount) slotCount = e[2].outSlot + 1;
+  const slotQueries = new Array(samples);
+  for (let i = 0; i < samples; i++) slotQueries[i] = [randInt(n), randInt(slotCount)];
+
   let t0 = nowMs();
+  let total = 0;
+  for (let i = 0; i < samples; i++) total += struct.weight(pairs[i][0], pairs[i][1]) ?? 0;
+  let t1 = nowMs();
+  const weightMs = t1 - t0;
+
+  t0 = nowMs();
+  let found = 0;
+  for (let i = 0; i < samples; i++) found += struct.slotNeighbors(slotQueries[i][0], slotQueries[i][1]).length;
+  t1 = nowMs();
+  const slotMs = t1 - t0;
+
+  return { weightMs, slotMs, checksum: total + found };
+}
+
+// Every pass reads each neighbor id, so the array-returning and allocation-free APIs are
+// timed doing the same work; `touched` sums the ids to keep the reads from being optimized out
+function benchTraversals(struct: GraphStructure, n: number, reps: number): TraversalResult {
   let touched = 0;
+
+  // Output traversal: outNeighbors
+  let t0 = nowMs();
   for (let r = 0; r < reps; r++) {
     for (let u = 0; u < n; u++) {
       const arr = struct.outNeighbors(u);
-      touched += arr.length;
-      // Prevent optimization
-      if (arr.length && arr[0] === -1) console.log('impossible');
+      for (let i = 0; i < arr.length; i++) touched += arr[i];
     }
   }
   let t1 = nowMs();
   const outMs = t1 - t0;
 
+  // Output traversal: forEachOut, with one callback for the whole pass
+  const visit = (v: number) => { touched += v; };
+  t0 = nowMs();
+  for (let r = 0; r < reps; r++) {
+    for (let u = 0; u < n; u++) struct.forEachOut(u, visit);
+  }
+  t1 = nowMs();
+  const forEachMs = t1 - t0;
+
+  // Output traversal: iterateOut
+  t0 = nowMs();
+  for (let r = 0; r < reps; r++) {
+    for (let u = 0; u < n; u++) {
+      for (const v of struct.iterateOut(u)) touched += v;
+    }
+  }
+  t1 = nowMs();
+  const iterateMs = t1 - t0;
+
+  // Output traversal: fillOut into one buffer, grown (and the row refilled) when a row overflows it
+  let buffer = new Int32Array(64);
+  t0 = nowMs();
+  for (let r = 0; r < reps; r++) {
+    for (let u = 0; u < n; u++) {
+      let count = struct.fillOut(u, buffer);
+      if (count > buffer.length) {
+        buffer = new Int32Array(count * 2);
+        count = struct.fillOut(u, buffer);
+      }
+      for (let i = 0; i < count; i++) touched += buffer[i];
+    }
+  }
+  t1 = nowMs();
+  const fillMs = t1 - t0;
+
   // Input traversal
   t0 = nowMs();
   for (let r = 0; r < reps; r++) {
     for (let v = 0; v < n; v++) {
       const arr = struct.inNeighbors(v);
-      touched += arr.length;
-      if (arr.length && arr[0] === -1) console.log('impossible');
+      for (let i = 0; i < arr.length; i++) touched += arr[i];
     }
   }
   t1 = nowMs();
   const inMs = t1 - t0;
 
-  return { outMs, inMs, touched };
+  if (touched === -1) console.log('impossible');
+  return { outMs, forEachMs, iterateMs, fillMs, inMs, touched };
+}
+
+// `count` snapshots of an unchanged graph, as an editor takes one before each undoable edit
+function benchSnapshots(struct: GraphStructure, count: number): number {
+  const t0 = nowMs();
+  let nodes = 0;
+  for (let i = 0; i < count; i++) nodes += struct.clone!().n;
+  const t1 = nowMs();
+  if (nodes === -1) console.log('impossible');
+  return t1 - t0;
+}
+
+// One full run of every algorithm workload
+function benchWorkloads(struct: GraphStructure): WorkloadTiming[] {
+  return WORKLOADS.map(w => {
+    const t0 = nowMs();
+    const result = w.run(struct);
+    const t1 = nowMs();
+    if (result.checksum === -1) console.log('impossible');
+    return { id: w.id, ms: t1 - t0, edges: result.edges };
+  });
+}
+
+// Mutations run last since they change the structure. Edges are added then removed again,
+// then `ops` vertices are appended and up to `ops` distinct original vertices are disconnected.
+// Edge pairs need u < v, so graphs under 2 nodes skip the edge phases (edgeOps = 0).
+function benchMutations(struct: GraphStructure, n: number, ops: number): MutationResult {
+  const edgeOps = n < 2 ? 0 : ops;
+  const pairs = new Array(edgeOps);
+  for (let i = 0; i < edgeOps; i++) {
+    const u = randInt(n - 1);
+    pairs[i] = [u, u + 1 + randInt(n - 1 - u)];
+  }
+
+  let t0 = nowMs();
+  for (let i = 0; i < edgeOps; i++) struct.addEdge(pairs[i][0], pairs[i][1]);
+  let t1 = nowMs();
+  const addEdgeMs = t1 - t0;
+
+  t0 = nowMs();
+  let removed = 0;
+  for (let i = 0; i < edgeOps; i++) {
+    if (struct.removeEdge(pairs[i][0], pairs[i][1])) removed++;
+  }
+  t1 = nowMs();
+  const removeEdgeMs = t1 - t0;
+
+  t0 = nowMs();
+  for (let i = 0; i < ops; i++) struct.addNode();
+  t1 = nowMs();
+  const addNodeMs = t1 - t0;
+
+  // Partial Fisher-Yates shuffle picks distinct victims
+  const removeNodeOps = Math.min(ops, n);
+  const ids = Array.from({ length: n }, (_, i) => i);
+  for (let i = 0; i < removeNodeOps; i++) {
+    const j = i + randInt(n - i);
+    const tmp = ids[i]; ids[i] = ids[j]; ids[j] = tmp;
+  }
+  t0 = nowMs();
+  for (let i = 0; i < removeNodeOps; i++) struct.removeNode(ids[i]);
+  t1 = nowMs();
+  const removeNodeMs = t1 - t0;
+
+  return { edgeOps, addEdgeMs, removeEdgeMs, addNodeMs, removeNodeMs, removeNodeOps, removed };
+}
+
+// Warmup passes (discarded, let the JIT settle) then `trials` timed passes of every phase.
+// Mutations get a fresh, untimed build each pass since they change the structure.
+async function measureStructure(
+  def: StructureDefinition,
+  n: number,
+  edges: Edge[],
+  reps: number,
+  config: BenchmarkConfig,
+  baselineBytes: number | null
+): Promise<Record<MetricId, number[]>> {
+  const mode: GraphMode = { multigraph: config.multigraph, selfLoops: config.selfLoops };
+  const mem = await measureMemoryDeltaMB(def, n, edges, mode, baselineBytes);
+  const struct = mem.structure;
+  const samples = emptySamples();
+  samples.memory.push(mem.deltaMB);
+  const snapshots = snapshotReps(config, n, edges.length);
+
+  for (let t = -config.warmup; t < config.trials; t++) {
+    const lookup = benchHasEdge(struct, n, config.samples);
+    const trav = benchTraversals(struct, n, reps);
+    const attrs = benchAttributes(struct, n, edges, config.samples);
+    const work = benchWorkloads(struct);
+    const snapshotMs = struct.clone ? benchSnapshots(struct, snapshots) : NaN;
+    const mut = benchMutations(def.build(n, edges, mode), n, config.mutations);
+    if (t < 0) continue;
+
+    samples.hasEdge.push((lookup.ms * 1e6) / config.samples);
+    samples.traverseOut.push((trav.outMs * 1e6) / (n * reps));
+    samples.traverseIn.push((trav.inMs * 1e6) / (n * reps));
+    samples.forEachOut.push((trav.forEachMs * 1e6) / (n * reps));
+    samples.iterateOut.push((trav.iterateMs * 1e6) / (n * reps));
+    samples.fillOut.push((trav.fillMs * 1e6) / (n * reps));
+    samples.weight.push((attrs.weightMs * 1e6) / config.samples);
+    samples.slotLookup.push((attrs.slotMs * 1e6) / config.samples);
+    if (struct.clone) samples.snapshot.push((snapshotMs * 1e6) / snapshots);
+    if (mut.edgeOps > 0) {
+      samples.addEdge.push((mut.addEdgeMs * 1e6) / mut.edgeOps);
+      samples.removeEdge.push((mut.removeEdgeMs * 1e6) / mut.edgeOps);
+    }
+    samples.addNode.push((mut.addNodeMs * 1e6) / config.mutations);
+    samples.removeNode.push((mut.removeNodeMs * 1e6) / Math.max(1, mut.removeNodeOps));
+    for (const w of work) {
+      samples[w.id].push(w.ms);
+      samples[`${w.id}PerEdge`].push((w.ms * 1e6) / Math.max(1, w.edges));
+    }
+  }
+
+  // Last, since its edits change the structure
+  const versionsMB = await measureVersionsMB(struct, n, baselineBytes === null ? null : mem.afterBytes);
+  if (versionsMB !== null) samples.versionsMemory.push(versionsMB);
+
+  return samples;
+}
+
+// Full traversal passes per trial: `config.reps` for a 100-node graph, fewer as graphs grow
+// so every size visits about the same number of nodes
+export function traversalReps(config: BenchmarkConfig, n: number): number {
+  return Math.max(1, Math.floor(config.reps / Math.max(1, n / 100)));
+}
+
+// Snapshots per trial: a deep copy costs O(V + E), so fewer are taken as graphs grow
+function snapshotReps(config: BenchmarkConfig, n: number, edgeCount: number): number {
+  return Math.max(10, Math.floor((config.mutations * 100) / Math.max(1, n + edgeCount)));
+}
+
+// Rough operation count of a run, shown before it starts
+export function estimateOperations(config: BenchmarkConfig, graph?: LoadedGraph | null): number {
+  const structures = getStructures().length;
+  const passes = config.warmup + config.trials;
+  return (graph ? [graph.n] : config.sizes).reduce((sum, n) => {
+    const edges = graph ? graph.edges.length : n * config.degree;
+    // Workloads touch every node and edge about once per algorithm
+    const perPass = config.samples * 3 + traversalReps(config, n) * n * 5 + config.mutations * 4 + WORKLOADS.length * (n + edges);
+    return sum + perPass * structures * passes;
+  }, 0);
+}
+
+export interface BenchmarkHooks {
+  onProgress?: (progress: number) => void;               // 0..100
+  onVerified?: (n: number, summary: VerificationSummary) => void;
+  onResult?: (result: BenchmarkResult) => void;          // each size's row as soon as it is complete
 }
 
 // -------------------- Main Benchmark Function --------------------
-export async function runRealBenchmark(
+// With a loaded `graph`, that single graph replaces the generated sizes.
+// Throws VerificationError (failing the run) when config.verify is set and the structures disagree.
+export async function runBenchmark(
   config: BenchmarkConfig,
-  onProgress: (progress: number) => void
+  environment: BenchmarkEnvironment,
+  hooks: BenchmarkHooks = {},
+  graph?: LoadedGraph | null
 ): Promise<BenchmarkResult[]> {
+  env = environment;
   const results: BenchmarkResult[] = [];
+  const structures = getStructures();
+  const sizes = graph ? [graph.n] : config.sizes;
+  const mode: GraphMode = { multigraph: config.multigraph, selfLoops: config.selfLoops };
   
-  for (let i = 0; i < config.sizes.length; i++) {
-    const n = config.sizes[i];
-    const edges = genEdges(n, config.degree);
-    
-    onProgress((i / config.sizes.length) * 100);
+  for (let i = 0; i < sizes.length; i++) {
+    const n = sizes[i];
+    random = createRandom(deriveSeed(config.seed, n, EDGE_STREAM));
+    const input = graph ? graph.edges : generateEdges(config.topology, n, config.degree, random);
+    // Counted before the graph mode drops anything, so the row shows what the input contained
+    const counts = countEdges(input);
+    const edges = applyGraphMode(input, mode);
+
+    if (config.verify) {
+      const summary = verifyStructures(structures, n, edges, mode, createRandom(deriveSeed(config.seed, n, VERIFY_STREAM)));
+      hooks.onVerified?.(n, summary);
+    }
     
     // Calculate sparsity
     const maxPossibleEdges = n * (n - 1); // For directed graph
-    const sparsity = (edges.length / maxPossibleEdges) * 100;
+    const sparsity = maxPossibleEdges ? (edges.length / maxPossibleEdges) * 100 : 0;
+    const reps = traversalReps(config, n);
 
-    // Test AM
-    const amRes = await measureMemoryDeltaMB(() => makeAM(n, edges), n, edges);
-    const amStruct = amRes.structure;
-    const amLookup = benchHasEdge(amStruct, n, config.samples);
-    const amLookupNs = (amLookup.ms * 1e6) / config.samples;
-    
-    const amReps = Math.max(1, Math.floor(config.reps / Math.max(1, n / 100)));
-    const amTrav = benchTraversals(amStruct, n, amReps);
-    const amOutNs = (amTrav.outMs * 1e6) / (n * amReps);
-    const amInNs = (amTrav.inMs * 1e6) / (n * amReps);
-
-    await sleep(10); // Let GC settle
-
-    // Test AL
-    const alRes = await measureMemoryDeltaMB(() => makeAL(n, edges), n, edges);
-    const alStruct = alRes.structure;
-    const alLookup = benchHasEdge(alStruct, n, config.samples);
-    const alLookupNs = (alLookup.ms * 1e6) / config.samples;
-    
-    const alTrav = benchTraversals(alStruct, n, amReps);
-    const alOutNs = (alTrav.outMs * 1e6) / (n * amReps);
-    const alInNs = (alTrav.inMs * 1e6) / (n * amReps);
+    const measured = new Map<string, Record<MetricId, number[]>>();
 
-    await sleep(10);
-
-    // Test AM+AL
-    const amalRes = await measureMemoryDeltaMB(() => makeAM_AL(n, edges), n, edges);
-    const amalStruct = amalRes.structure;
-    const amalLookup = benchHasEdge(amalStruct, n, config.samples);
-    const amalLookupNs = (amalLookup.ms * 1e6) / config.samples;
-    
-    const amalTrav = benchTraversals(amalStruct, n, amReps);
-    const amalOutNs = (amalTrav.outMs * 1e6) / (n * amReps);
-    const amalInNs = (amalTrav.inMs * 1e6) / (n * amReps);
-
-    await sleep(10);
+    let baselineBytes: number | null = null;
+    if (env.memory.slow && env.memory.readBytes) {
+      await settle();
+      baselineBytes = await env.memory.readBytes();
+    }
 
-    // Test OOP
-    const oopRes = await measureMemoryDeltaMB(() => makeOOP(n, edges), n, edges);
-    const oopStruct = oopRes.structure;
-    const oopLookup = benchHasEdge(oopStruct, n, config.samples);
-    const oopLookupNs = (oopLookup.ms * 1e6) / config.samples;
-    
-    const oopTrav = benchTraversals(oopStruct, n, amReps);
-    const oopOutNs = (oopTrav.outMs * 1e6) / (n * amReps);
-    const oopInNs = (oopTrav.inMs * 1e6) / (n * amReps);
+    for (let j = 0; j < structures.length; j++) {
+      const def = structures[j];
+      hooks.onProgress?.(((i + j / structures.length) / sizes.length) * 100);
+      // Same query and mutation samples for every structure
+      random = createRandom(deriveSeed(config.seed, n, QUERY_STREAM));
+      measured.set(def.name, await measureStructure(def, n, edges, reps, config, baselineBytes));
+      // Drop the structure (it goes out of scope) before building the next one
+      await settle();
+    }
 
-    // Record results
-    results.push({
+    // Record results, metric-major so related columns sit together:
+    // the mean of each timed metric plus its trial statistics
+    const row: BenchmarkResult = {
       n,
       edges: edges.length,
+      duplicates: counts.duplicates,
+      selfLoops: counts.selfLoops,
       sparsity: Number(sparsity.toFixed(2)),
-      'MB: AM': Number(amRes.deltaMB.toFixed(2)),
-      'MB: AL': Number(alRes.deltaMB.toFixed(2)),
-      'MB: AM+AL': Number(amalRes.deltaMB.toFixed(2)),
-      'MB: OOP': Number(oopRes.deltaMB.toFixed(2)),
-      'ns/op hasEdge AM': Number(amLookupNs.toFixed(1)),
-      'ns/op hasEdge AL': Number(alLookupNs.toFixed(1)),
-      'ns/op hasEdge AM+AL': Number(amalLookupNs.toFixed(1)),
-      'ns/op hasEdge OOP': Number(oopLookupNs.toFixed(1)),
-      'ns/op traverseOut AM': Number(amOutNs.toFixed(1)),
-      'ns/op traverseOut AL': Number(alOutNs.toFixed(1)),
-      'ns/op traverseOut AM+AL': Number(amalOutNs.toFixed(1)),
-      'ns/op traverseOut OOP': Number(oopOutNs.toFixed(1)),
-      'ns/op traverseIn AM': Number(amInNs.toFixed(1)),
-      'ns/op traverseIn AL': Number(alInNs.toFixed(1)),
-      'ns/op traverseIn AM+AL': Number(amalInNs.toFixed(1)),
-      'ns/op traverseIn OOP': Number(oopInNs.toFixed(1)),
-    });
-
-    await sleep(10); // Brief pause between tests
+      memoryEstimated: env.memory.readBytes ? 0 : 1,
+    };
+    for (const m of METRICS) {
+      for (const def of structures) {
+        const samples = measured.get(def.name)![m.id];
+        // No samples: snapshot columns of structures without clone(), edge mutations below 2 nodes
+        if (samples.length === 0) continue;
+        if (!m.timed) {
+          row[metricKey(m.id, def.name)] = Number(samples[0].toFixed(m.digits));
+          continue;
+        }
+        const stats = summarize(samples);
+        row[metricKey(m.id, def.name)] = Number(stats.mean.toFixed(m.digits));
+        for (const stat of STAT_COLUMNS) {
+          // ci95 of a single trial is unknown; a missing column reads as NaN, a JSON null as 0
+          if (Number.isFinite(stats[stat])) row[statKey(m.id, def.name, stat)] = Number(stats[stat].toFixed(m.digits));
+        }
+      }
+    }
+
+    results.push(row);
+    hooks.onResult?.(row);
   }
   
-  onProgress(100);
+  hooks.onProgress?.(100);
   return results;
 }
 
@@ -402,47 +480,33 @@ export async function runRealBenchmark(
 export interface BenchmarkConfig {
   sizes: number[];
   samples: number;
-  reps: number;
+  reps: number;     // traversal passes at n = 100, see traversalReps()
   degree: number;
+  mutations: number;
+  seed: number;
+  topology: string; // generator id from lib/generators.ts
+  multigraph: boolean; // keep parallel u -> v edges (GraphMode)
+  selfLoops: boolean;  // keep u -> u edges (GraphMode)
+  verify: boolean;     // check that all structures agree before timing (lib/verify.ts)
+  trials: number;   // timed repetitions per metric
+  warmup: number;   // untimed repetitions before the trials
 }
 
+// Per-structure columns are named by metricKey() (trial mean) and statKey(), one set per registered structure
 export interface BenchmarkResult {
   n: number;
-  edges: number;
+  edges: number;       // after the graph mode is applied
+  duplicates: number;  // repeated u -> v edges in the input, dropped unless multigraph
+  selfLoops: number;   // u -> u edges in the input, dropped unless selfLoops
   sparsity: number;
-  'MB: AM': number;
-  'MB: AL': number;
-  'MB: AM+AL': number;
-  'MB: OOP': number;
-  'ns/op hasEdge AM': number;
-  'ns/op hasEdge AL': number;
-  'ns/op hasEdge AM+AL': number;
-  'ns/op hasEdge OOP': number;
-  'ns/op traverseOut AM': number;
-  'ns/op traverseOut AL': number;
-  'ns/op traverseOut AM+AL': number;
-  'ns/op traverseOut OOP': number;
-  'ns/op traverseIn AM': number;
-  'ns/op traverseIn AL': number;
-  'ns/op traverseIn AM+AL': number;
-  'ns/op traverseIn OOP': number;
-}
-
-interface GraphStructure {
-  n: number;
-  has: (u: number, v: number) => boolean;
-  outNeighbors: (u: number) => number[];
-  inNeighbors: (v: number) => number[];
-  _bits?: Uint32Array;
-  _out?: number[][];
-  _in?: number[][];
-  _am?: { _bits: Uint32Array };
-  _net?: object;
+  memoryEstimated: number; // 1 when the 'MB:' columns come from estimateBytes rather than a heap measurement
+  [column: string]: number;
 }
 
 interface MemoryResult {
   deltaMB: number;
   structure: GraphStructure;
+  afterBytes: number | null;  // the reading after the build, null for estimates
 }
 
 interface BenchResult {
@@ -452,8 +516,31 @@ interface BenchResult {
 
 interface TraversalResult {
   outMs: number;
+  forEachMs: number;   // the output traversal again through each allocation-free API
+  iterateMs: number;
+  fillMs: number;
   inMs: number;
   touched: number;
 }
 
-type Edge = [number, number];
\ No newline at end of file
+interface AttributeResult {
+  weightMs: number;
+  slotMs: number;
+  checksum: number;
+}
+
+interface WorkloadTiming {
+  id: WorkloadId;
+  ms: number;
+  edges: number;
+}
+
+interface MutationResult {
+  edgeOps: number;     // pairs added and removed; 0 below 2 nodes
+  addEdgeMs: number;
+  removeEdgeMs: number;
+  addNodeMs: number;
+  removeNodeMs: number;
+  removeNodeOps: number;
+  removed: number;
+}
@@ -0,0 +1,69 @@
+// Runs the benchmark core off the main thread so the page stays responsive.
+// The page cancels a run by terminating the worker; rows already posted are kept.
+// Workers cannot read the heap themselves, so memory readings are requested from the page,
+// which answers each 'memory' message with one of its own (lib/environment.browser.ts).
+
+import { runBenchmark, type BenchmarkConfig, type BenchmarkResult, type MemoryAdapter, type MemorySource, type RuntimeInfo } from './benchmark';
+import { createBrowserEnvironment } from './environment.browser';
+import type { LoadedGraph } from './importers';
+
+export type WorkerRequest =
+  | { type: 'run'; config: BenchmarkConfig; graph: LoadedGraph | null; memorySource: MemorySource }
+  | { type: 'memory'; id: number; bytes: number }
+  | { type: 'memory'; id: number; error: string };
+
+export type WorkerResponse =
+  | { type: 'start'; memorySource: MemorySource; runtime: RuntimeInfo }
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; result: BenchmarkResult }   // one per size, in order
+  | { type: 'memory'; id: number }                // asks the page for a heap reading
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+function post(message: WorkerResponse) {
+  postMessage(message);
+}
+
+// Readings in flight, by request id
+const pending = new Map<number, { resolve: (bytes: number) => void; reject: (error: Error) => void }>();
+let nextId = 0;
+
+function pageMemory(source: MemorySource): MemoryAdapter {
+  if (source === 'estimate') return { source };
+  return {
+    source,
+    readBytes: () => new Promise<number>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      post({ type: 'memory', id });
+    }),
+    slow: source === 'measureUserAgentSpecificMemory',
+  };
+}
+
+async function run(config: BenchmarkConfig, graph: LoadedGraph | null, memorySource: MemorySource) {
+  const environment = createBrowserEnvironment(pageMemory(memorySource));
+  post({ type: 'start', memorySource: environment.memory.source, runtime: environment.runtime });
+  try {
+    await runBenchmark(config, environment, {
+      onProgress: progress => post({ type: 'progress', progress }),
+      onResult: result => post({ type: 'result', result }),
+    }, graph);
+    post({ type: 'done' });
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message });
+  }
+}
+
+addEventListener('message', (e: MessageEvent<WorkerRequest>) => {
+  const message = e.data;
+  if (message.type === 'run') {
+    void run(message.config, message.graph, message.memorySource);
+    return;
+  }
+  const reading = pending.get(message.id);
+  if (!reading) return;
+  pending.delete(message.id);
+  if ('error' in message) reading.reject(new Error(`Memory measurement failed: ${message.error}`));
+  else reading.resolve(message.bytes);
+});
@@ -0,0 +1,122 @@
+// Regression comparison between two saved runs: rows are aligned by n and structure, and
+// every metric gets its delta, percentage change and a significance verdict.
+// All metrics are lower-is-better (MB, ns/op, ms/run), so an increase is a regression.
+
+import { METRICS, metricKey, statKey, type MetricDefinition } from './metrics';
+import { normalizeConfig, readValue, structureNames, type SavedResults } from './results';
+import type { BenchmarkConfig, RuntimeInfo } from './benchmark';
+
+export interface MetricDelta {
+  n: number;
+  structure: string;
+  metric: MetricDefinition;
+  baseline: number;
+  current: number;
+  delta: number;       // current - baseline
+  percent: number;     // delta relative to the baseline
+  // The 95% intervals of the two means do not overlap once combined, i.e.
+  // |delta| > sqrt(ci95a² + ci95b²). null when a file has no ci95 column (memory, single-trial
+  // runs, older files).
+  significant: boolean | null;
+  regression: boolean; // slower or larger beyond the threshold, and significant (see gateWithoutStats)
+}
+
+export interface CompareOptions {
+  thresholdPercent: number;
+  // Also fail on values without a ci95 to test against (memory is a single sample, older
+  // files have no statistics). Off by default since a lone sample is mostly noise.
+  gateWithoutStats: boolean;
+}
+
+export interface Comparison {
+  deltas: MetricDelta[];
+  regressions: MetricDelta[];
+  sizes: number[];        // n present in both runs
+  structures: string[];   // structures present in both runs
+  unmatched: string[];    // sizes and structures only one run has, for the report
+  configChanges: string[];
+  runtimeChanges: string[];  // machine or runtime differences; empty when either file lacks them
+}
+
+// Settings that make two runs measure different things when they differ
+const CONFIG_KEYS: (keyof BenchmarkConfig)[] = ['degree', 'samples', 'reps', 'mutations', 'trials', 'seed', 'topology', 'multigraph', 'selfLoops'];
+
+function configChanges(baseline: SavedResults, current: SavedResults): string[] {
+  const a0 = normalizeConfig(baseline.config), b0 = normalizeConfig(current.config);
+  const changes: string[] = [];
+  for (const key of CONFIG_KEYS) {
+    const a = JSON.stringify(a0[key]), b = JSON.stringify(b0[key]);
+    if (a !== b) changes.push(`${key}: ${a ?? 'unset'} -> ${b ?? 'unset'}`);
+  }
+  return changes;
+}
+
+// The commit is left out: comparing two versions of the code is the point of a comparison
+const RUNTIME_KEYS: (keyof RuntimeInfo)[] = ['version', 'cpu', 'cores', 'memoryGB', 'os', 'gcExposed'];
+
+function runtimeChanges(baseline: SavedResults, current: SavedResults): string[] {
+  const a0 = baseline.runtime, b0 = current.runtime;
+  if (!a0 || !b0) return [];
+  const changes: string[] = [];
+  for (const key of RUNTIME_KEYS) {
+    const a = JSON.stringify(a0[key]), b = JSON.stringify(b0[key]);
+    if (a !== b) changes.push(`${key}: ${a} -> ${b}`);
+  }
+  return changes;
+}
+
+// Single-trial files saved before ci95 was left out for them hold an interval of 0
+function hasStatistics(data: SavedResults): boolean {
+  const trials = normalizeConfig(data.config).trials;
+  return trials === undefined || trials > 1;
+}
+
+export function compareResults(baseline: SavedResults, current: SavedResults, options: CompareOptions): Comparison {
+  const baseNames = structureNames(baseline), currentNames = structureNames(current);
+  const structures = baseNames.filter(s => currentNames.includes(s));
+  const unmatched = [
+    ...baseNames.filter(s => !currentNames.includes(s)).map(s => `structure ${s} only in baseline`),
+    ...currentNames.filter(s => !baseNames.includes(s)).map(s => `structure ${s} only in current`),
+  ];
+
+  const baseRows = new Map(baseline.results.map(r => [Number(r.n), r]));
+  const currentRows = new Map(current.results.map(r => [Number(r.n), r]));
+  const sizes = [...baseRows.keys()].filter(n => currentRows.has(n)).sort((a, b) => a - b);
+  for (const n of baseRows.keys()) if (!currentRows.has(n)) unmatched.push(`n=${n} only in baseline`);
+  for (const n of currentRows.keys()) if (!baseRows.has(n)) unmatched.push(`n=${n} only in current`);
+
+  const withStats = hasStatistics(baseline) && hasStatistics(current);
+  const deltas: MetricDelta[] = [];
+  for (const n of sizes) {
+    const a = baseRows.get(n)!, b = currentRows.get(n)!;
+    for (const metric of METRICS) {
+      for (const structure of structures) {
+        const baseValue = readValue(a, metricKey(metric.id, structure));
+        const currentValue = readValue(b, metricKey(metric.id, structure));
+        // Metrics added after the baseline was recorded
+        if (!Number.isFinite(baseValue) || !Number.isFinite(currentValue)) continue;
+
+        const delta = currentValue - baseValue;
+        const percent = baseValue === 0 ? (delta === 0 ? 0 : Infinity) : (delta / baseValue) * 100;
+        let significant: boolean | null = null;
+        if (metric.timed && withStats) {
+          const ciA = readValue(a, statKey(metric.id, structure, 'ci95'));
+          const ciB = readValue(b, statKey(metric.id, structure, 'ci95'));
+          if (Number.isFinite(ciA) && Number.isFinite(ciB)) significant = Math.abs(delta) > Math.hypot(ciA, ciB);
+        }
+        const regression = percent > options.thresholdPercent && (significant ?? options.gateWithoutStats);
+        deltas.push({ n, structure, metric, baseline: baseValue, current: currentValue, delta, percent, significant, regression });
+      }
+    }
+  }
+
+  return {
+    deltas,
+    regressions: deltas.filter(d => d.regression),
+    sizes,
+    structures,
+    unmatched,
+    configChanges: configChanges(baseline, current),
+    runtimeChanges: runtimeChanges(baseline, current),
+  };
+}
@@ -0,0 +1,64 @@
+// Browser adapters for the benchmark core: performance.now() and a heap reading for the worker.
+// The benchmark runs in a dedicated worker, which sees neither measureUserAgentSpecificMemory
+// nor performance.memory, so the page measures on its behalf and the worker asks for readings
+// over postMessage (lib/benchmark.worker.ts). Sources are tried in order:
+// measureUserAgentSpecificMemory (needs cross-origin isolation, see next.config.ts) covers the
+// page and its workers but waits for the next GC, so each reading takes seconds; Chromium's
+// performance.memory is immediate but bucketed, and may leave out the worker's heap; otherwise
+// each structure's estimateBytes. Pages cannot force a GC, so there is no gc adapter.
+
+import type { BenchmarkEnvironment, MemoryAdapter, MemorySource, RuntimeInfo } from './benchmark';
+
+interface PerformanceMemoryAPI {
+  measureUserAgentSpecificMemory?: () => Promise<{ bytes: number }>;
+  memory?: { usedJSHeapSize: number };
+}
+
+// Chromium-only navigator fields
+interface NavigatorHints {
+  deviceMemory?: number;
+  userAgentData?: { platform?: string };
+}
+
+// Called on the page, which owns the worker
+export function detectMemorySource(): MemorySource {
+  if (typeof performance === 'undefined') return 'estimate';
+  const perf = performance as unknown as PerformanceMemoryAPI;
+  if (globalThis.crossOriginIsolated && typeof perf.measureUserAgentSpecificMemory === 'function') {
+    return 'measureUserAgentSpecificMemory';
+  }
+  if (perf.memory) return 'performance.memory';
+  return 'estimate';
+}
+
+// Page side of the worker's memory requests, from the source detectMemorySource() chose
+export async function readPageMemory(source: MemorySource): Promise<number> {
+  const perf = performance as unknown as PerformanceMemoryAPI;
+  // Resolves at the browser's next GC, so the reading already excludes garbage
+  if (source === 'measureUserAgentSpecificMemory') return (await perf.measureUserAgentSpecificMemory!()).bytes;
+  return perf.memory!.usedJSHeapSize;
+}
+
+// Pages see no CPU model, and the commit is the one the bundle was built from (next.config.ts)
+function describeBrowser(): RuntimeInfo {
+  const nav = navigator as Navigator & NavigatorHints;
+  return {
+    platform: 'browser',
+    version: nav.userAgent,
+    cpu: null,
+    cores: nav.hardwareConcurrency || null,
+    memoryGB: nav.deviceMemory ?? null,
+    os: nav.userAgentData?.platform || nav.platform || null,
+    gcExposed: false,
+    commit: process.env.NEXT_PUBLIC_GIT_COMMIT || null,
+  };
+}
+
+// `memory` comes from the worker, which relays readBytes to the page
+export function createBrowserEnvironment(memory: MemoryAdapter): BenchmarkEnvironment {
+  return {
+    now: () => performance.now(),
+    memory,
+    runtime: describeBrowser(),
+  };
+}
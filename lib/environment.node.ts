@@ -0,0 +1,47 @@
+// Node.js adapters for the benchmark core: the hrtime clock, heapUsed readings and global.gc
+// when the process runs with --expose-gc. Imported by the CLI only, never by the web bundle.
+
+import * as os from 'os';
+import { execSync } from 'child_process';
+import type { BenchmarkEnvironment, RuntimeInfo } from './benchmark';
+
+// Commit of the working tree, null outside a git checkout
+function gitCommit(): string | null {
+  try {
+    return execSync('git describe --always --dirty', { encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+function describeNode(gcExposed: boolean): RuntimeInfo {
+  const cpus = os.cpus();
+  return {
+    platform: 'node',
+    version: `Node ${process.version} (V8 ${process.versions.v8})`,
+    cpu: cpus[0]?.model.trim() || null,
+    cores: cpus.length || null,
+    memoryGB: Math.round((os.totalmem() / 1024 ** 3) * 10) / 10,
+    os: `${os.type()} ${os.release()} ${os.arch()}`,
+    gcExposed,
+    commit: gitCommit(),
+  };
+}
+
+export function createNodeEnvironment(): BenchmarkEnvironment {
+  const gc = (globalThis as { gc?: () => void }).gc;
+  return {
+    // High-resolution monotonic clock (Date.now() only has millisecond resolution)
+    now: () => Number(process.hrtime.bigint()) / 1e6,
+    memory: {
+      source: 'process.memoryUsage',
+      // Typed array backing stores (AM bitsets, CSR arrays) live outside the V8 heap
+      readBytes: async () => {
+        const usage = process.memoryUsage();
+        return usage.heapUsed + usage.external;
+      },
+    },
+    gc: typeof gc === 'function' ? () => gc() : undefined,
+    runtime: describeNode(typeof gc === 'function'),
+  };
+}
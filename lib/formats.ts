@@ -0,0 +1,220 @@
+// Output formats for saved results, shared by the CLI (--format) and the web Export button.
+// Every renderer takes the same SavedResults document and returns the file contents.
+
+import { getStructures } from './structures';
+import { METRICS, metricKey, statKey } from './metrics';
+import { STAT_COLUMNS } from './stats';
+import { describeRuntime, normalizeConfig, readValue, structureNames, type SavedResults } from './results';
+
+export type OutputFormat = 'json' | 'csv' | 'jsonl' | 'md' | 'html';
+
+export const OUTPUT_FORMATS: { id: OutputFormat; label: string; extension: string; mime: string }[] = [
+  { id: 'json', label: 'JSON', extension: '.json', mime: 'application/json' },
+  { id: 'csv', label: 'CSV', extension: '.csv', mime: 'text/csv' },
+  { id: 'jsonl', label: 'JSON Lines', extension: '.jsonl', mime: 'application/x-ndjson' },
+  { id: 'md', label: 'Markdown', extension: '.md', mime: 'text/markdown' },
+  { id: 'html', label: 'HTML report', extension: '.html', mime: 'text/html' },
+];
+
+export function getOutputFormat(id: OutputFormat) {
+  return OUTPUT_FORMATS.find(f => f.id === id)!;
+}
+
+// -------------------- CSV --------------------
+// RFC 4180 quoting: fields with commas, quotes or line breaks are quoted, quotes doubled
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Every column of the rows, in first-seen order (n, edges, ... then metric-major columns)
+function columnsOf(data: SavedResults): string[] {
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  for (const row of data.results) {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    }
+  }
+  return columns;
+}
+
+function renderCsv(data: SavedResults): string {
+  const columns = columnsOf(data);
+  const lines = [columns.map(csvField).join(',')];
+  for (const row of data.results) lines.push(columns.map(c => csvField(row[c])).join(','));
+  return lines.join('\n') + '\n';
+}
+
+// -------------------- JSON Lines --------------------
+// One record per size, structure and metric, ready for jq, pandas or a database import
+function renderJsonLines(data: SavedResults): string {
+  const config = normalizeConfig(data.config);
+  const lines: string[] = [];
+  for (const row of data.results) {
+    for (const structure of structureNames(data)) {
+      for (const m of METRICS) {
+        const value = readValue(row, metricKey(m.id, structure));
+        if (!Number.isFinite(value)) continue;
+        const record: Record<string, string | number | boolean | null | undefined> = {
+          timestamp: data.timestamp,
+          seed: config.seed,
+          topology: data.graph ? `file:${data.graph.name}` : config.topology,
+          n: Number(row.n),
+          edges: Number(row.edges),
+          structure,
+          metric: m.id,
+          unit: m.unit,
+          value,
+        };
+        if (m.timed) {
+          for (const stat of STAT_COLUMNS) {
+            const x = readValue(row, statKey(m.id, structure, stat));
+            record[stat] = Number.isFinite(x) ? x : null;
+          }
+        } else if (m.id === 'memory') {
+          record.memorySource = data.memorySource ?? null;
+        }
+        lines.push(JSON.stringify(record));
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+// -------------------- Markdown --------------------
+function cell(row: SavedResults['results'][number], metric: typeof METRICS[number], structure: string): string {
+  const value = readValue(row, metricKey(metric.id, structure));
+  if (!Number.isFinite(value)) return '–';
+  const ci = metric.timed ? readValue(row, statKey(metric.id, structure, 'ci95')) : NaN;
+  return Number.isFinite(ci) ? `${value.toFixed(metric.digits)} ±${ci.toFixed(metric.digits)}` : value.toFixed(metric.digits);
+}
+
+// Run settings in one line, for the report headers
+function describeRun(data: SavedResults): string {
+  const config = normalizeConfig(data.config);
+  const parts = [
+    data.graph ? `graph ${data.graph.name} (${data.graph.format})` : `topology ${config.topology}, degree ${config.degree}`,
+    `seed ${config.seed}`,
+    `${config.trials} trials (+${config.warmup} warmup)`,
+    `${config.multigraph ? 'multigraph' : 'simple graph'}, self-loops ${config.selfLoops === false ? 'dropped' : 'allowed'}`,
+  ];
+  if (data.memorySource) parts.push(`memory from ${data.memorySource}`);
+  return parts.join(' · ');
+}
+
+// A table per size: one line per metric, one column per structure, "mean ±95% CI"
+function renderMarkdown(data: SavedResults): string {
+  const structures = structureNames(data);
+  const out = [`## Graph benchmark results (${data.timestamp})`, '', describeRun(data), '', describeRuntime(data.runtime), ''];
+  for (const row of data.results) {
+    out.push(`### n = ${row.n}, ${row.edges} edges`, '');
+    out.push(`| Metric | ${structures.join(' | ')} |`);
+    out.push(`| --- | ${structures.map(() => '---:').join(' | ')} |`);
+    for (const m of METRICS) {
+      out.push(`| ${m.title} (${m.unit}) | ${structures.map(s => cell(row, m, s)).join(' | ')} |`);
+    }
+    out.push('');
+  }
+  out.push('Timed metrics: mean ±95% confidence interval over the trials; lower is better.');
+  return out.join('\n') + '\n';
+}
+
+// -------------------- HTML report --------------------
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function structureColor(name: string): string {
+  return getStructures().find(s => s.name === name)?.color ?? '#6B7280';
+}
+
+// Grouped bar chart as inline SVG: one group per size, one bar per structure
+function barChart(data: SavedResults, metric: typeof METRICS[number], structures: string[]): string {
+  const width = 640, height = 240, left = 56, bottom = 28, top = 12;
+  const rows = data.results;
+  const values = rows.map(r => structures.map(s => readValue(r, metricKey(metric.id, s))));
+  const max = Math.max(0, ...values.flat().filter(Number.isFinite)) || 1;
+  const plotHeight = height - top - bottom;
+  const groupWidth = (width - left) / Math.max(1, rows.length);
+  const barWidth = Math.max(2, (groupWidth * 0.8) / Math.max(1, structures.length));
+  const y = (v: number) => top + plotHeight - (v / max) * plotHeight;
+
+  const parts: string[] = [];
+  for (let k = 0; k <= 4; k++) {
+    const v = (max * k) / 4;
+    parts.push(`<line x1="${left}" x2="${width}" y1="${y(v)}" y2="${y(v)}" stroke="#e5e7eb"/>`);
+    parts.push(`<text x="${left - 6}" y="${y(v) + 4}" text-anchor="end" font-size="10">${Number(v.toPrecision(3))}</text>`);
+  }
+  rows.forEach((row, i) => {
+    const x0 = left + i * groupWidth + groupWidth * 0.1;
+    structures.forEach((s, j) => {
+      const v = values[i][j];
+      if (!Number.isFinite(v)) return;
+      const x = x0 + j * barWidth;
+      parts.push(`<rect x="${x.toFixed(1)}" y="${y(v).toFixed(1)}" width="${(barWidth - 1).toFixed(1)}" height="${(top + plotHeight - y(v)).toFixed(1)}" fill="${structureColor(s)}"><title>${escapeHtml(`${s}, n=${row.n}: ${v} ${metric.unit}`)}</title></rect>`);
+    });
+    parts.push(`<text x="${(left + (i + 0.5) * groupWidth).toFixed(1)}" y="${height - 8}" text-anchor="middle" font-size="11">n=${row.n}</text>`);
+  });
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" role="img" aria-label="${escapeHtml(metric.title)}">${parts.join('')}</svg>`;
+}
+
+function renderHtml(data: SavedResults): string {
+  const structures = structureNames(data);
+  const legend = structures
+    .map(s => `<span class="key"><i style="background:${structureColor(s)}"></i>${escapeHtml(s)}</span>`)
+    .join('');
+  const charts = METRICS.map(m => `
+<section>
+  <h3>${escapeHtml(m.title)} <small>(${escapeHtml(m.unit)}, lower is better)</small></h3>
+  ${barChart(data, m, structures)}
+</section>`).join('');
+  const tables = data.results.map(row => `
+<h3>n = ${row.n}, ${row.edges} edges</h3>
+<table>
+  <tr><th>Metric</th>${structures.map(s => `<th>${escapeHtml(s)}</th>`).join('')}</tr>
+  ${METRICS.map(m => `<tr><td>${escapeHtml(`${m.title} (${m.unit})`)}</td>${structures.map(s => `<td>${escapeHtml(cell(row, m, s))}</td>`).join('')}</tr>`).join('\n  ')}
+</table>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Graph benchmark results ${escapeHtml(data.timestamp)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 1100px; color: #111827; }
+  .charts { display: grid; grid-template-columns: repeat(auto-fill, minmax(480px, 1fr)); gap: 1rem; }
+  section { border: 1px solid #e5e7eb; border-radius: 8px; padding: 0.5rem 1rem; }
+  h3 small { color: #6b7280; font-weight: normal; }
+  .key { margin-right: 1rem; } .key i { display: inline-block; width: 12px; height: 12px; margin-right: 4px; border-radius: 2px; }
+  table { border-collapse: collapse; margin-bottom: 1.5rem; font-size: 0.875rem; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.25rem 0.5rem; } td:not(:first-child) { text-align: right; font-variant-numeric: tabular-nums; }
+</style>
+</head>
+<body>
+<h1>Graph benchmark results</h1>
+<p>${escapeHtml(data.timestamp)} · ${escapeHtml(describeRun(data))}</p>
+<p>${escapeHtml(describeRuntime(data.runtime))}</p>
+<p>${legend}</p>
+<div class="charts">${charts}
+</div>
+<h2>Tables</h2>
+<p>Timed metrics: mean ±95% confidence interval over the trials.</p>
+${tables}
+</body>
+</html>
+`;
+}
+
+// -------------------- Entry point --------------------
+export function renderResults(data: SavedResults, format: OutputFormat): string {
+  switch (format) {
+    case 'json': return JSON.stringify(data, null, 2);
+    case 'csv': return renderCsv(data);
+    case 'jsonl': return renderJsonLines(data);
+    case 'md': return renderMarkdown(data);
+    case 'html': return renderHtml(data);
+  }
+}
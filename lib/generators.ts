@@ -0,0 +1,187 @@
+// Graph topology generators shared by the CLI and the web UI
+// Every generator orients edges from the lower to the higher node id, so all graphs are DAGs.
+// generateEdges() then gives every edge seeded weight, slot and type attributes.
+
+import type { Edge } from './structures';
+import type { Random } from './random';
+
+export interface TopologyDefinition {
+  id: string;
+  label: string;
+  description: string;
+  generate: (n: number, avgOutDeg: number, random: Random) => Edge[];
+}
+
+const randInt = (random: Random, n: number) => Math.floor(random() * n);
+
+// Orient an undirected pair low -> high
+const forward = (a: number, b: number): Edge => (a < b ? [a, b] : [b, a]);
+
+// Uniform-random u < v pairs with average out-degree d (duplicates possible)
+function randomDag(n: number, avgOutDeg: number, random: Random): Edge[] {
+  if (n < 2) return [];
+  const m = Math.max(0, Math.floor(n * avgOutDeg));
+  const edges: Edge[] = [];
+  for (let i = 0; i < m; i++) {
+    const u = randInt(random, n - 1);
+    const v = u + 1 + randInt(random, n - 1 - u); // ensures v > u
+    edges.push([u, v]);
+  }
+  return edges;
+}
+
+// G(n, p) over the n(n-1)/2 forward pairs, p chosen for the requested average out-degree.
+// Geometric skipping (Batagelj & Brandes) keeps it O(n + m) instead of O(n²).
+function erdosRenyi(n: number, avgOutDeg: number, random: Random): Edge[] {
+  if (n < 2) return [];
+  const p = Math.min(1, (2 * avgOutDeg) / (n - 1));
+  const edges: Edge[] = [];
+  if (p <= 0) return edges;
+  const logQ = Math.log(1 - p);
+  let v = 1, w = -1;
+  while (v < n) {
+    w += p === 1 ? 1 : 1 + Math.floor(Math.log(1 - random()) / logQ);
+    while (w >= v && v < n) {
+      w -= v;
+      v++;
+    }
+    if (v < n) edges.push([w, v]);
+  }
+  return edges;
+}
+
+// Preferential attachment: each new node links to m = degree existing nodes chosen
+// proportionally to their degree, producing a few very high-degree hubs
+function barabasiAlbert(n: number, avgOutDeg: number, random: Random): Edge[] {
+  const m = Math.max(1, Math.round(avgOutDeg));
+  const edges: Edge[] = [];
+  const endpoints: number[] = []; // every edge endpoint once, so sampling it is degree-proportional
+  const seedSize = Math.min(n, m + 1);
+
+  for (let v = 1; v < seedSize; v++) {
+    for (let u = 0; u < v; u++) {
+      edges.push([u, v]);
+      endpoints.push(u, v);
+    }
+  }
+
+  const picked = new Set<number>();
+  for (let v = seedSize; v < n; v++) {
+    picked.clear();
+    while (picked.size < Math.min(m, v)) {
+      picked.add(endpoints.length ? endpoints[randInt(random, endpoints.length)] : randInt(random, v));
+    }
+    for (const u of picked) {
+      edges.push([u, v]);
+      endpoints.push(u, v);
+    }
+  }
+  return edges;
+}
+
+// Ring lattice linking each node to its k = degree successors, each edge rewired to a
+// random target with probability 0.1: high clustering with short paths
+function wattsStrogatz(n: number, avgOutDeg: number, random: Random): Edge[] {
+  if (n < 2) return [];
+  const k = Math.max(1, Math.min(n - 1, Math.round(avgOutDeg)));
+  const beta = 0.1;
+  const edges: Edge[] = [];
+  for (let u = 0; u < n; u++) {
+    for (let j = 1; j <= k; j++) {
+      let v = (u + j) % n;
+      if (random() < beta) {
+        do { v = randInt(random, n); } while (v === u);
+      }
+      edges.push(forward(u, v));
+    }
+  }
+  return edges;
+}
+
+// 2D lattice, row-major: right and down neighbors. Degree is fixed at ~2 by construction.
+function grid(n: number): Edge[] {
+  const cols = Math.max(1, Math.ceil(Math.sqrt(n)));
+  const edges: Edge[] = [];
+  for (let u = 0; u < n; u++) {
+    if ((u % cols) + 1 < cols && u + 1 < n) edges.push([u, u + 1]);
+    if (u + cols < n) edges.push([u, u + cols]);
+  }
+  return edges;
+}
+
+// Node-editor pipeline: ~sqrt(n) layers, each node takes `degree` inputs from the
+// previous two layers, so work flows strictly from earlier to later layers
+function layeredDag(n: number, avgOutDeg: number, random: Random): Edge[] {
+  const width = Math.max(1, Math.round(Math.sqrt(n)));
+  const inputs = Math.max(1, Math.round(avgOutDeg));
+  const edges: Edge[] = [];
+  for (let v = width; v < n; v++) {
+    const layer = Math.floor(v / width);
+    const lo = Math.max(0, (layer - 2) * width);
+    const hi = layer * width; // exclusive: sources come from earlier layers only
+    for (let i = 0; i < inputs; i++) edges.push([lo + randInt(random, hi - lo), v]);
+  }
+  return edges;
+}
+
+// k = degree hubs (nodes 0..k-1), each linked to every later node
+function star(n: number, avgOutDeg: number): Edge[] {
+  const hubs = Math.max(1, Math.min(n - 1, Math.round(avgOutDeg)));
+  const edges: Edge[] = [];
+  for (let h = 0; h < hubs; h++) {
+    for (let v = h + 1; v < n; v++) edges.push([h, v]);
+  }
+  return edges;
+}
+
+// Every forward pair: n(n-1)/2 edges, degree is ignored. Keep n small.
+function complete(n: number): Edge[] {
+  const edges: Edge[] = [];
+  for (let u = 0; u < n; u++) {
+    for (let v = u + 1; v < n; v++) edges.push([u, v]);
+  }
+  return edges;
+}
+
+export const TOPOLOGIES: TopologyDefinition[] = [
+  { id: 'random-dag', label: 'Random DAG', description: 'Uniform random u < v pairs', generate: randomDag },
+  { id: 'erdos-renyi', label: 'Erdős–Rényi', description: 'Each forward pair present with fixed probability', generate: erdosRenyi },
+  { id: 'barabasi-albert', label: 'Barabási–Albert', description: 'Scale-free, preferential attachment hubs', generate: barabasiAlbert },
+  { id: 'watts-strogatz', label: 'Watts–Strogatz', description: 'Small-world rewired ring lattice', generate: wattsStrogatz },
+  { id: 'grid', label: '2D Grid', description: 'Lattice with right/down edges (degree ~2)', generate: (n) => grid(n) },
+  { id: 'layered-dag', label: 'Layered DAG', description: 'Node-editor pipeline of ~sqrt(n) layers', generate: layeredDag },
+  { id: 'star', label: 'Star / Hub', description: 'Degree hubs linked to every other node', generate: (n, d) => star(n, d) },
+  { id: 'complete', label: 'Complete', description: 'All n(n-1)/2 forward pairs (degree ignored)', generate: (n) => complete(n) },
+];
+
+export const DEFAULT_TOPOLOGY = 'random-dag';
+
+export function getTopology(id: string): TopologyDefinition | undefined {
+  return TOPOLOGIES.find(t => t.id === id);
+}
+
+// Slots per node and data types drawn for generated edges
+export const GENERATED_SLOTS = 4;
+export const GENERATED_TYPES = 4;
+
+// Integer weights 1..16 and uniform slots/types, drawn after the topology so attributes
+// never change which edges a seed produces
+function assignAttributes(edges: Edge[], random: Random): Edge[] {
+  for (const e of edges) {
+    e[2] = {
+      weight: 1 + randInt(random, 16),
+      outSlot: randInt(random, GENERATED_SLOTS),
+      inSlot: randInt(random, GENERATED_SLOTS),
+      type: randInt(random, GENERATED_TYPES),
+    };
+  }
+  return edges;
+}
+
+export function generateEdges(topology: string, n: number, avgOutDeg: number, random: Random): Edge[] {
+  const def = getTopology(topology);
+  if (!def) {
+    throw new Error(`Unknown topology "${topology}". Available: ${TOPOLOGIES.map(t => t.id).join(', ')}`);
+  }
+  return assignAttributes(def.generate(n, avgOutDeg, random), random);
+}
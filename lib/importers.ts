@@ -0,0 +1,279 @@
+// Graph file importers shared by the CLI (--graph=path) and the web UI (file upload)
+// Node ids of any kind are mapped to dense indices 0..n-1 in order of first appearance.
+// Weights, slots and data types are read where the format has them; other edges get the defaults.
+
+import { DEFAULT_EDGE_ATTRIBUTES, type Edge, type EdgeAttributes } from './structures';
+
+export type GraphFormat = 'edgelist' | 'mtx' | 'dimacs' | 'graphml' | 'litegraph';
+
+export interface LoadedGraph {
+  name: string;        // file name, shown in results
+  format: GraphFormat;
+  n: number;
+  edges: Edge[];
+  ids: string[];       // original id of each dense index
+  types: string[];     // data type name of each EdgeAttributes.type id (LiteGraph link types)
+}
+
+export const GRAPH_FORMATS: { id: GraphFormat; label: string; extensions: string[] }[] = [
+  { id: 'edgelist', label: 'Edge list (whitespace / CSV)', extensions: ['.txt', '.csv', '.tsv', '.edges', '.el'] },
+  { id: 'mtx', label: 'Matrix Market', extensions: ['.mtx'] },
+  { id: 'dimacs', label: 'DIMACS', extensions: ['.gr', '.dimacs', '.col', '.clq'] },
+  { id: 'graphml', label: 'GraphML', extensions: ['.graphml', '.xml'] },
+  { id: 'litegraph', label: 'LiteGraph / ComfyUI workflow', extensions: ['.json'] },
+];
+
+export class GraphImportError extends Error {
+  constructor(format: GraphFormat, message: string, line?: number) {
+    super(`${format}${line !== undefined ? ` line ${line}` : ''}: ${message}`);
+    this.name = 'GraphImportError';
+  }
+}
+
+// Assigns dense indices to arbitrary ids
+class IdMap {
+  private index = new Map<string, number>();
+  ids: string[] = [];
+
+  get(id: string | number): number {
+    const key = String(id);
+    let i = this.index.get(key);
+    if (i === undefined) {
+      i = this.ids.length;
+      this.index.set(key, i);
+      this.ids.push(key);
+    }
+    return i;
+  }
+}
+
+function finish(name: string, format: GraphFormat, ids: IdMap, edges: Edge[], types?: IdMap): LoadedGraph {
+  return { name, format, n: ids.ids.length, edges, ids: ids.ids, types: types?.ids ?? [] };
+}
+
+// Attributes carrying only a weight; non-numeric weights fall back to the default
+function weighted(token: string | undefined): EdgeAttributes | undefined {
+  if (token === undefined) return undefined;
+  const weight = parseFloat(token);
+  return Number.isFinite(weight) ? { ...DEFAULT_EDGE_ATTRIBUTES, weight } : undefined;
+}
+
+// -------------------- Format detection --------------------
+export function detectFormat(fileName: string, text: string): GraphFormat {
+  const lower = fileName.toLowerCase();
+  for (const f of GRAPH_FORMATS) {
+    if (f.extensions.some(ext => lower.endsWith(ext))) {
+      // .xml could be anything; .txt could be DIMACS - let the content decide below
+      if (f.id !== 'graphml' && f.id !== 'edgelist') return f.id;
+    }
+  }
+  const head = text.trimStart().slice(0, 512);
+  if (head.startsWith('%%MatrixMarket')) return 'mtx';
+  if (head.startsWith('<') && head.includes('graphml')) return 'graphml';
+  if (head.startsWith('{')) return 'litegraph';
+  if (/^(c\b.*\n)*p\s+\w+\s+\d+/m.test(head)) return 'dimacs';
+  return 'edgelist';
+}
+
+// -------------------- Edge list --------------------
+// One edge per line: "source target [weight]", separated by whitespace, commas or semicolons.
+// '#' and '%' start comments; a "source,target" style header line is skipped.
+function parseEdgeList(name: string, text: string): LoadedGraph {
+  const ids = new IdMap();
+  const edges: Edge[] = [];
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#') || line.startsWith('%')) continue;
+    const tokens = line.split(/[\s,;]+/).filter(Boolean);
+    if (tokens.length < 2) throw new GraphImportError('edgelist', `expected "source target", got "${line}"`, i + 1);
+    if (edges.length === 0 && /^(source|src|from|u|node1)$/i.test(tokens[0])) continue;
+    edges.push([ids.get(tokens[0]), ids.get(tokens[1]), weighted(tokens[2])]);
+  }
+  return finish(name, 'edgelist', ids, edges);
+}
+
+// -------------------- Matrix Market --------------------
+// Coordinate format only; symmetric/skew/hermitian matrices are expanded to both directions.
+// Entry values become edge weights (pattern matrices have none).
+function parseMatrixMarket(name: string, text: string): LoadedGraph {
+  const lines = text.split(/\r?\n/);
+  const header = lines[0]?.trim().toLowerCase().split(/\s+/) ?? [];
+  if (header[0] !== '%%matrixmarket' || header[1] !== 'matrix') {
+    throw new GraphImportError('mtx', 'missing "%%MatrixMarket matrix" header', 1);
+  }
+  if (header[2] !== 'coordinate') {
+    throw new GraphImportError('mtx', `only coordinate matrices are supported, got "${header[2]}"`, 1);
+  }
+  const mirrored = header[4] !== undefined && header[4] !== 'general';
+
+  const ids = new IdMap();
+  const edges: Edge[] = [];
+  let sized = false;
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('%')) continue;
+    const tokens = line.split(/\s+/);
+    if (!sized) {
+      // "rows cols entries": register 1..max(rows, cols) so isolated nodes keep their index
+      const n = Math.max(parseInt(tokens[0]), parseInt(tokens[1]));
+      if (!Number.isFinite(n)) throw new GraphImportError('mtx', `bad size line "${line}"`, i + 1);
+      for (let k = 1; k <= n; k++) ids.get(k);
+      sized = true;
+      continue;
+    }
+    const u = parseInt(tokens[0]), v = parseInt(tokens[1]);
+    if (!(u >= 1 && v >= 1 && u <= ids.ids.length && v <= ids.ids.length)) {
+      throw new GraphImportError('mtx', `entry out of range "${line}"`, i + 1);
+    }
+    const attrs = weighted(tokens[2]);
+    edges.push([u - 1, v - 1, attrs]);
+    if (mirrored && u !== v) edges.push([v - 1, u - 1, attrs]);
+  }
+  if (!sized) throw new GraphImportError('mtx', 'missing size line');
+  return finish(name, 'mtx', ids, edges);
+}
+
+// -------------------- DIMACS --------------------
+// "p <kind> n m" problem line, "a u v [w]" arcs (directed) and "e u v [w]" edges (undirected)
+function parseDimacs(name: string, text: string): LoadedGraph {
+  const ids = new IdMap();
+  const edges: Edge[] = [];
+  const lines = text.split(/\r?\n/);
+  let n = -1;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('c')) continue;
+    const tokens = line.split(/\s+/);
+    const at = (k: number) => {
+      const id = parseInt(tokens[k]);
+      if (!(id >= 1 && id <= n)) throw new GraphImportError('dimacs', `node id out of range in "${line}"`, i + 1);
+      return id - 1;
+    };
+    switch (tokens[0]) {
+      case 'p':
+        n = parseInt(tokens[2]);
+        if (!Number.isFinite(n)) throw new GraphImportError('dimacs', `bad problem line "${line}"`, i + 1);
+        for (let k = 1; k <= n; k++) ids.get(k);
+        break;
+      case 'a':
+        if (n < 0) throw new GraphImportError('dimacs', 'arc before problem line', i + 1);
+        edges.push([at(1), at(2), weighted(tokens[3])]);
+        break;
+      case 'e': {
+        if (n < 0) throw new GraphImportError('dimacs', 'edge before problem line', i + 1);
+        const u = at(1), v = at(2), attrs = weighted(tokens[3]);
+        edges.push([u, v, attrs]);
+        if (u !== v) edges.push([v, u, attrs]);
+        break;
+      }
+      default:
+        // Other line kinds (n, s, t, ...) carry no topology
+        break;
+    }
+  }
+  if (n < 0) throw new GraphImportError('dimacs', 'missing problem line');
+  return finish(name, 'dimacs', ids, edges);
+}
+
+// -------------------- GraphML --------------------
+// Attribute scan over <node>/<edge> tags (no DOM needed, so it runs in Node too)
+function parseGraphML(name: string, text: string): LoadedGraph {
+  const attr = (tag: string, key: string) => {
+    const m = new RegExp(`\\s${key}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(tag);
+    return m ? (m[2] ?? m[3]) : undefined;
+  };
+  const graphTag = /<graph\b[^>]*>/.exec(text);
+  if (!graphTag) throw new GraphImportError('graphml', 'no <graph> element');
+  const defaultDirected = attr(graphTag[0], 'edgedefault') !== 'undirected';
+
+  const ids = new IdMap();
+  const edges: Edge[] = [];
+  for (const m of text.matchAll(/<node\b[^>]*>/g)) {
+    const id = attr(m[0], 'id');
+    if (id !== undefined) ids.get(id);
+  }
+  for (const m of text.matchAll(/<edge\b[^>]*>/g)) {
+    const source = attr(m[0], 'source'), target = attr(m[0], 'target');
+    if (source === undefined || target === undefined) {
+      throw new GraphImportError('graphml', `edge without source/target: ${m[0]}`);
+    }
+    const directedAttr = attr(m[0], 'directed');
+    const directed = directedAttr === undefined ? defaultDirected : directedAttr === 'true';
+    const u = ids.get(source), v = ids.get(target);
+    edges.push([u, v]);
+    if (!directed && u !== v) edges.push([v, u]);
+  }
+  return finish(name, 'graphml', ids, edges);
+}
+
+// -------------------- LiteGraph / ComfyUI workflow --------------------
+// { nodes: [{ id }], links: [[id, origin_id, origin_slot, target_id, target_slot, type]] }
+// Links may also be objects ({ origin_id, target_id, ... }) as in newer serializations.
+// Slots and type names are kept as edge attributes.
+interface WorkflowLink {
+  origin_id: number | string;
+  origin_slot?: number;
+  target_id: number | string;
+  target_slot?: number;
+  type?: string | number;
+}
+
+interface WorkflowJSON {
+  nodes?: { id: number | string }[];
+  links?: (unknown[] | WorkflowLink)[];
+}
+
+function parseLiteGraph(name: string, text: string): LoadedGraph {
+  let data: WorkflowJSON;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new GraphImportError('litegraph', `invalid JSON: ${(e as Error).message}`);
+  }
+  if (!Array.isArray(data.nodes) || !Array.isArray(data.links)) {
+    throw new GraphImportError('litegraph', 'expected "nodes" and "links" arrays');
+  }
+
+  const ids = new IdMap();
+  const types = new IdMap();
+  for (const node of data.nodes) ids.get(node.id);
+  const edges: Edge[] = [];
+  for (const raw of data.links) {
+    if (!raw) continue;
+    const link: Partial<WorkflowLink> = Array.isArray(raw)
+      ? {
+          origin_id: raw[1] as number | string,
+          origin_slot: raw[2] as number,
+          target_id: raw[3] as number | string,
+          target_slot: raw[4] as number,
+          type: raw[5] as string | number,
+        }
+      : raw;
+    if (link.origin_id === undefined || link.target_id === undefined) {
+      throw new GraphImportError('litegraph', `link without origin/target: ${JSON.stringify(raw)}`);
+    }
+    edges.push([ids.get(link.origin_id), ids.get(link.target_id), {
+      weight: DEFAULT_EDGE_ATTRIBUTES.weight,
+      outSlot: Number(link.origin_slot) || 0,
+      inSlot: Number(link.target_slot) || 0,
+      type: types.get(link.type ?? '*'),
+    }]);
+  }
+  return finish(name, 'litegraph', ids, edges, types);
+}
+
+// -------------------- Entry point --------------------
+const PARSERS: Record<GraphFormat, (name: string, text: string) => LoadedGraph> = {
+  edgelist: parseEdgeList,
+  mtx: parseMatrixMarket,
+  dimacs: parseDimacs,
+  graphml: parseGraphML,
+  litegraph: parseLiteGraph,
+};
+
+export function parseGraph(name: string, text: string, format: GraphFormat = detectFormat(name, text)): LoadedGraph {
+  const graph = PARSERS[format](name, text);
+  if (graph.n === 0) throw new GraphImportError(format, 'graph has no nodes');
+  return graph;
+}
@@ -0,0 +1,77 @@
+// Per-structure result columns, shared by the CLI, the web UI and the saved CSV/JSON files
+// Column names are `${prefix} ${structure.name}`, e.g. 'MB: AM' or 'ns/op hasEdge OOP' (the trial mean)
+
+import { getStructures } from './structures';
+import { STAT_COLUMNS } from './stats';
+
+export interface MetricDefinition {
+  id: string;
+  prefix: string;   // Column prefix in results rows
+  title: string;    // Chart title
+  unit: string;
+  digits: number;   // Decimal places kept when recording
+  timed: boolean;   // Measured over repeated trials, with STAT_COLUMNS recorded next to the mean
+  group: 'memory' | 'operation' | 'workload';  // Section the metric is shown in
+}
+
+export const METRICS = [
+  { id: 'memory', prefix: 'MB:', title: 'Memory Usage', unit: 'MB', digits: 2, timed: false, group: 'memory' },
+  // Undo history (lib/benchmark.ts VERSION_HISTORY), for structures with clone() only
+  { id: 'versionsMemory', prefix: 'MB history:', title: 'Memory of 100 Retained Versions', unit: 'MB', digits: 2, timed: false, group: 'memory' },
+  { id: 'hasEdge', prefix: 'ns/op hasEdge', title: 'Lookup Performance', unit: 'ns/op', digits: 1, timed: true, group: 'operation' },
+  { id: 'traverseOut', prefix: 'ns/op traverseOut', title: 'Output Traversal', unit: 'ns/op', digits: 1, timed: true, group: 'operation' },
+  { id: 'traverseIn', prefix: 'ns/op traverseIn', title: 'Input Traversal', unit: 'ns/op', digits: 1, timed: true, group: 'operation' },
+  // The output traversal through each allocation-free neighbor API (GraphStructure.forEachOut etc.)
+  { id: 'forEachOut', prefix: 'ns/op forEachOut', title: 'Output Traversal (forEachOut)', unit: 'ns/op', digits: 1, timed: true, group: 'operation' },
+  { id: 'iterateOut', prefix: 'ns/op iterateOut', title: 'Output Traversal (iterator)', unit: 'ns/op', digits: 1, timed: true, group: 'operation' },
+  { id: 'fillOut', prefix: 'ns/op fillOut', title: 'Output Traversal (fill buffer)', unit: 'ns/op', digits: 1, timed: true, group: 'operation' },
+  { id: 'weight', prefix: 'ns/op weight', title: 'Edge Weight Lookup', unit: 'ns/op', digits: 1, timed: true, group: 'operation' },
+  { id: 'slotLookup', prefix: 'ns/op slotLookup', title: 'Find Links on Slot', unit: 'ns/op', digits: 1, timed: true, group: 'operation' },
+  { id: 'snapshot', prefix: 'ns/op snapshot', title: 'Snapshot (clone)', unit: 'ns/op', digits: 1, timed: true, group: 'operation' },
+  { id: 'addEdge', prefix: 'ns/op addEdge', title: 'Add Edge', unit: 'ns/op', digits: 1, timed: true, group: 'operation' },
+  { id: 'removeEdge', prefix: 'ns/op removeEdge', title: 'Remove Edge', unit: 'ns/op', digits: 1, timed: true, group: 'operation' },
+  { id: 'addNode', prefix: 'ns/op addNode', title: 'Add Vertex', unit: 'ns/op', digits: 1, timed: true, group: 'operation' },
+  { id: 'removeNode', prefix: 'ns/op removeNode', title: 'Remove Vertex', unit: 'ns/op', digits: 1, timed: true, group: 'operation' },
+  // Algorithm workloads (lib/workloads.ts): time per full run and per adjacency entry examined
+  { id: 'bfs', prefix: 'ms/run bfs', title: 'BFS', unit: 'ms/run', digits: 3, timed: true, group: 'workload' },
+  { id: 'bfsPerEdge', prefix: 'ns/edge bfs', title: 'BFS per Edge', unit: 'ns/edge', digits: 1, timed: true, group: 'workload' },
+  { id: 'dfs', prefix: 'ms/run dfs', title: 'DFS', unit: 'ms/run', digits: 3, timed: true, group: 'workload' },
+  { id: 'dfsPerEdge', prefix: 'ns/edge dfs', title: 'DFS per Edge', unit: 'ns/edge', digits: 1, timed: true, group: 'workload' },
+  { id: 'topoSort', prefix: 'ms/run topoSort', title: 'Topological Sort', unit: 'ms/run', digits: 3, timed: true, group: 'workload' },
+  { id: 'topoSortPerEdge', prefix: 'ns/edge topoSort', title: 'Topological Sort per Edge', unit: 'ns/edge', digits: 1, timed: true, group: 'workload' },
+  { id: 'cycleCheck', prefix: 'ms/run cycleCheck', title: 'Cycle Detection', unit: 'ms/run', digits: 3, timed: true, group: 'workload' },
+  { id: 'cycleCheckPerEdge', prefix: 'ns/edge cycleCheck', title: 'Cycle Detection per Edge', unit: 'ns/edge', digits: 1, timed: true, group: 'workload' },
+  { id: 'components', prefix: 'ms/run components', title: 'Connected Components', unit: 'ms/run', digits: 3, timed: true, group: 'workload' },
+  { id: 'componentsPerEdge', prefix: 'ns/edge components', title: 'Connected Components per Edge', unit: 'ns/edge', digits: 1, timed: true, group: 'workload' },
+  { id: 'dijkstra', prefix: 'ms/run dijkstra', title: 'Dijkstra', unit: 'ms/run', digits: 3, timed: true, group: 'workload' },
+  { id: 'dijkstraPerEdge', prefix: 'ns/edge dijkstra', title: 'Dijkstra per Edge', unit: 'ns/edge', digits: 1, timed: true, group: 'workload' },
+] as const satisfies readonly MetricDefinition[];
+
+export type MetricId = typeof METRICS[number]['id'];
+
+// Empty sample lists for every metric, filled in by the measurement loops
+export function emptySamples(): Record<MetricId, number[]> {
+  return Object.fromEntries(METRICS.map(m => [m.id, []])) as unknown as Record<MetricId, number[]>;
+}
+
+export function getMetric(id: MetricId): MetricDefinition {
+  return METRICS.find(m => m.id === id)!;
+}
+
+export function metricKey(id: MetricId, structureName: string): string {
+  return `${getMetric(id).prefix} ${structureName}`;
+}
+
+export function statKey(id: MetricId, structureName: string, stat: typeof STAT_COLUMNS[number]): string {
+  return `${metricKey(id, structureName)} ${stat}`;
+}
+
+// All per-structure columns in table order: every metric for every registered structure,
+// each timed metric followed by its trial statistics
+export function metricColumns(): string[] {
+  const structures = getStructures();
+  return METRICS.flatMap(m => structures.flatMap(s => [
+    metricKey(m.id, s.name),
+    ...(m.timed ? STAT_COLUMNS.map(stat => statKey(m.id, s.name, stat)) : []),
+  ]));
+}
@@ -0,0 +1,36 @@
+// Seeded pseudo-random numbers so edge sets and query samples are reproducible from a seed
+
+// Uniform in [0, 1), same contract as Math.random
+export type Random = () => number;
+
+// mulberry32: tiny, fast, and good enough for benchmark inputs
+export function createRandom(seed: number): Random {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Mix extra values into a seed, giving independent streams per graph size and phase.
+// That way n=500 gets the same graph whether or not n=200 ran before it.
+export function deriveSeed(seed: number, ...parts: number[]): number {
+  let h = seed >>> 0;
+  for (const p of parts) {
+    h = Math.imul(h ^ (p >>> 0), 0x9E3779B1);
+    h ^= h >>> 16;
+  }
+  return h >>> 0;
+}
+
+// Fresh 32-bit seed for runs that did not ask for one (recorded so they can still be replayed)
+export function randomSeed(): number {
+  return (Math.random() * 4294967296) >>> 0;
+}
+
+// Stream ids for deriveSeed(seed, n, stream)
+export const EDGE_STREAM = 0;
+export const QUERY_STREAM = 1;
+export const VERIFY_STREAM = 2;
@@ -0,0 +1,135 @@
+// Saved result files: the CLI's ./benchmark-results/benchmark-<timestamp>.json and the web
+// UI's download share this layout. Files from older CLI versions hold string values and
+// upper-case config keys; readValue() and normalizeConfig() accept both.
+
+import type { BenchmarkConfig, BenchmarkResult, MemorySource, RuntimeInfo } from './benchmark';
+
+export interface ResultRow {
+  n: number;
+  edges: number;
+  [column: string]: string | number;
+}
+
+export interface SavedResults {
+  timestamp: string;
+  config: BenchmarkConfig | Record<string, unknown>;  // the latter for older CLI files
+  graph?: { name: string; format: string; n: number; edges: number } | null;  // set for --graph runs
+  memorySource?: MemorySource;
+  runtime?: RuntimeInfo;       // absent in files saved before it was recorded
+  structures?: string[];
+  results: ResultRow[];
+}
+
+// A run on the web dashboard: the one just measured or a result file imported into it
+export interface ResultRun {
+  id: string;
+  label: string;               // 'Current run' or the file name
+  timestamp?: string;
+  structures: string[];
+  memorySource?: MemorySource;
+  runtime?: RuntimeInfo | null;
+  results: BenchmarkResult[];
+}
+
+export class ResultsImportError extends Error {
+  constructor(fileName: string, message: string) {
+    super(`${fileName}: ${message}`);
+    this.name = 'ResultsImportError';
+  }
+}
+
+// Older result files have no `structures` list; recover it from the 'MB: <name>' columns
+export function structureNames(data: SavedResults): string[] {
+  if (data.structures) return data.structures;
+  const prefix = 'MB: ';
+  return Object.keys(data.results[0] || {})
+    .filter(k => k.startsWith(prefix))
+    .map(k => k.slice(prefix.length));
+}
+
+// Runtime metadata in one line, e.g. "Node v20.11.0 (V8 11.3.244.8) · Intel(R) Xeon(R) × 4 · 16 GB · Linux 6.1 x64 · gc exposed · commit abc1234"
+export function describeRuntime(runtime: RuntimeInfo | undefined | null): string {
+  if (!runtime) return 'runtime not recorded';
+  const parts = [runtime.version];
+  if (runtime.cpu || runtime.cores) parts.push([runtime.cpu, runtime.cores && `× ${runtime.cores}`].filter(Boolean).join(' '));
+  if (runtime.memoryGB) parts.push(`${runtime.memoryGB} GB`);
+  if (runtime.os) parts.push(runtime.os);
+  if (runtime.platform === 'node') parts.push(runtime.gcExposed ? 'gc exposed' : 'no gc');
+  parts.push(runtime.commit ? `commit ${runtime.commit}` : 'commit unknown');
+  return parts.join(' · ');
+}
+
+// Numeric value of a column, or NaN when the file does not have it
+export function readValue(row: ResultRow, column: string): number {
+  const value = row[column];
+  return value === undefined || value === '' ? NaN : Number(value);
+}
+
+// Rows as numeric BenchmarkResults, whichever version wrote them. Older CLI rows are strings
+// and lack sparsity; files from before graph modes lack the duplicate and self-loop counts (NaN).
+export function toBenchmarkResults(data: SavedResults): BenchmarkResult[] {
+  return data.results.map(row => {
+    const values: Record<string, number> = {};
+    for (const column of Object.keys(row)) values[column] = readValue(row, column);
+    const { n, edges } = values;
+    return {
+      duplicates: NaN,
+      selfLoops: NaN,
+      sparsity: n > 1 ? Number(((edges / (n * (n - 1))) * 100).toFixed(2)) : 0,
+      memoryEstimated: data.memorySource === 'estimate' ? 1 : 0,
+      ...values,
+    } as BenchmarkResult;
+  });
+}
+
+// Reads a result file saved by the web UI or any CLI version
+export function importResults(fileName: string, text: string): ResultRun {
+  let data: SavedResults;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new ResultsImportError(fileName, `invalid JSON: ${(e as Error).message}`);
+  }
+  if (!data || typeof data !== 'object' || !Array.isArray(data.results)) {
+    throw new ResultsImportError(fileName, 'not a benchmark result file (no "results" array)');
+  }
+  if (data.results.length === 0) throw new ResultsImportError(fileName, 'the run has no result rows');
+  const structures = structureNames(data);
+  if (structures.length === 0) throw new ResultsImportError(fileName, 'no structure columns found');
+  return {
+    id: `${fileName} ${data.timestamp}`,
+    label: fileName.replace(/\.json$/i, ''),
+    timestamp: data.timestamp,
+    structures,
+    memorySource: data.memorySource,
+    runtime: data.runtime ?? null,
+    results: toBenchmarkResults(data),
+  };
+}
+
+// Config keys written by older CLI versions
+const LEGACY_CONFIG_KEYS: Record<string, keyof BenchmarkConfig> = {
+  SIZES: 'sizes',
+  AVG_OUT_DEG: 'degree',
+  LOOKUP_SAMPLES: 'samples',
+  TRAVERSAL_REPS: 'reps',
+  MUTATION_OPS: 'mutations',
+  TRIALS: 'trials',
+  WARMUP: 'warmup',
+  SEED: 'seed',
+  TOPOLOGY: 'topology',
+  VERIFY: 'verify',
+};
+
+// The saved config with BenchmarkConfig keys, whichever version wrote it
+export function normalizeConfig(config: SavedResults['config'] | undefined): Partial<BenchmarkConfig> {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(config ?? {})) {
+    if (key === 'GRAPH_MODE' && value && typeof value === 'object') {
+      Object.assign(normalized, value);
+    } else {
+      normalized[LEGACY_CONFIG_KEYS[key] ?? key] = value;
+    }
+  }
+  return normalized as Partial<BenchmarkConfig>;
+}
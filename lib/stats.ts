@@ -0,0 +1,47 @@
+// Measurement harness statistics: repeated trials summarized with a 95% confidence interval
+
+export interface Stats {
+  mean: number;
+  median: number;
+  stddev: number;   // sample standard deviation (n - 1)
+  min: number;
+  p95: number;
+  ci95: number;     // half-width: the 95% CI is mean ± ci95; NaN from a single sample
+}
+
+// Summary columns recorded next to each timed metric's mean, e.g. 'ns/op hasEdge AM p95'
+export const STAT_COLUMNS = ['median', 'stddev', 'min', 'p95', 'ci95'] as const;
+
+// Two-sided 95% Student's t critical values by degrees of freedom
+const T_95: [number, number][] = [
+  [1, 12.706], [2, 4.303], [3, 3.182], [4, 2.776], [5, 2.571],
+  [6, 2.447], [7, 2.365], [8, 2.306], [9, 2.262], [10, 2.228],
+  [12, 2.179], [15, 2.131], [20, 2.086], [30, 2.042], [60, 2.000], [120, 1.980],
+];
+
+function tCritical(df: number): number {
+  if (df > 120) return 1.96;
+  // Largest tabulated df not above ours keeps the interval conservative
+  for (let i = T_95.length - 1; i >= 0; i--) {
+    if (T_95[i][0] <= df) return T_95[i][1];
+  }
+  return T_95[0][1];
+}
+
+export function summarize(samples: number[]): Stats {
+  const n = samples.length;
+  if (n === 0) return { mean: NaN, median: NaN, stddev: NaN, min: NaN, p95: NaN, ci95: NaN };
+
+  const sorted = samples.slice().sort((a, b) => a - b);
+  const mean = sorted.reduce((a, b) => a + b, 0) / n;
+  const mid = n >> 1;
+  const median = n % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  const variance = n > 1 ? sorted.reduce((acc, x) => acc + (x - mean) ** 2, 0) / (n - 1) : 0;
+  const stddev = Math.sqrt(variance);
+  // Nearest-rank percentile
+  const p95 = sorted[Math.min(n - 1, Math.ceil(0.95 * n) - 1)];
+  // One sample says nothing about the spread: an interval of 0 would make every delta significant
+  const ci95 = n > 1 ? tCritical(n - 1) * stddev / Math.sqrt(n) : NaN;
+
+  return { mean, median, stddev, min: sorted[0], p95, ci95 };
+}
@@ -0,0 +1,2448 @@
+// Graph structure registry shared by the CLI (src/commands/run.ts) and the web UI (lib/benchmark.ts)
+// Register a representation once with registerStructure() and both entry points benchmark it.
+
+// -------------------- Type Definitions --------------------
+// LiteGraph-style link data. Packed representations keep slots in 8 bits and the type in 16.
+export interface EdgeAttributes {
+  weight: number;
+  outSlot: number;  // output slot on the source node
+  inSlot: number;   // input slot on the target node
+  type: number;     // data type id (LoadedGraph.types maps imported names to ids)
+}
+
+export const DEFAULT_EDGE_ATTRIBUTES: EdgeAttributes = Object.freeze({ weight: 1, outSlot: 0, inSlot: 0, type: 0 });
+
+// Source, target and optional attributes (DEFAULT_EDGE_ATTRIBUTES when omitted)
+export type Edge = [number, number, EdgeAttributes?];
+
+// Edge semantics every structure enforces: a simple graph keeps at most one u -> v edge,
+// a multigraph keeps parallel edges; self-loops (u -> u) are allowed or rejected in either
+export interface GraphMode {
+  multigraph: boolean;
+  selfLoops: boolean;
+}
+
+export const DEFAULT_GRAPH_MODE: GraphMode = Object.freeze({ multigraph: false, selfLoops: true });
+
+export interface GraphStructure {
+  n: number;
+  has: (u: number, v: number) => boolean;
+  // Array-like so packed structures can hand out typed-array views instead of copies
+  outNeighbors: (u: number) => ArrayLike<number>;
+  inNeighbors: (v: number) => ArrayLike<number>;
+  // Allocation-free alternatives to outNeighbors, each timed in its own column: a callback per
+  // neighbor, a generator, and a copy into a caller-owned buffer. fillOut returns the
+  // out-degree; when that exceeds buffer.length the buffer contents are unspecified and the
+  // caller retries with a larger one.
+  forEachOut: (u: number, visit: (v: number) => void) => void;
+  iterateOut: (u: number) => Iterable<number>;
+  fillOut: (u: number, buffer: Int32Array) => number;
+  // Attributes of a u -> v edge, undefined without one. With parallel edges, which one is read is structure-specific.
+  weight: (u: number, v: number) => number | undefined;
+  edgeAttributes: (u: number, v: number) => EdgeAttributes | undefined;
+  slotNeighbors: (u: number, slot: number) => ArrayLike<number>; // targets linked from output slot `slot` of u
+  // Mutation. Node ids are stable: removeNode() disconnects the node and leaves its id in place
+  addEdge: (u: number, v: number, attrs?: EdgeAttributes) => boolean; // false when the GraphMode rejects it
+  removeEdge: (u: number, v: number) => boolean; // false when there was no such edge
+  addNode: () => number;                          // returns the new node id (the old n)
+  removeNode: (u: number) => void;
+  // Independent copy for undo history: later changes to either side do not show in the other.
+  // Timed by the snapshot columns; structures without it are left out of them.
+  clone?: () => GraphStructure;
+}
+
+// An immutable graph version (see makePersistent). The with* methods return a new version that
+// shares every untouched node with this one; a change the GraphMode rejects, or removing an
+// absent edge, returns this same version.
+export interface PersistentGraph extends Pick<GraphStructure,
+  'has' | 'outNeighbors' | 'inNeighbors' | 'forEachOut' | 'iterateOut' | 'fillOut' | 'weight' | 'edgeAttributes' | 'slotNeighbors'> {
+  readonly n: number;
+  withEdge: (u: number, v: number, attrs?: EdgeAttributes) => PersistentGraph;
+  withoutEdge: (u: number, v: number) => PersistentGraph;
+  withNode: () => PersistentGraph;                // the new node's id is the old n
+  withoutNode: (u: number) => PersistentGraph;
+}
+
+export interface StructureDefinition {
+  name: string;                // Short key used in result columns, e.g. 'AM' -> 'MB: AM'
+  label: string;               // Human readable name for legends
+  color: string;               // Chart color
+  // Edges the mode does not allow are dropped (applyGraphMode() gives the same result up front)
+  build: (n: number, edges: Edge[], mode?: GraphMode) => GraphStructure;
+  // Rough heap footprint used where the runtime cannot measure memory (browsers without a heap reading)
+  estimateBytes?: (n: number, edgeCount: number) => number;
+}
+
+// -------------------- Registry --------------------
+const registry = new Map<string, StructureDefinition>();
+
+export function registerStructure(def: StructureDefinition): void {
+  if (registry.has(def.name)) {
+    throw new Error(`Graph structure "${def.name}" is already registered`);
+  }
+  registry.set(def.name, def);
+}
+
+export function getStructures(): StructureDefinition[] {
+  return Array.from(registry.values());
+}
+
+export function getStructure(name: string): StructureDefinition | undefined {
+  return registry.get(name);
+}
+
+// -------------------- Graph Mode --------------------
+export interface EdgeCounts {
+  duplicates: number;  // edges repeating an earlier u -> v pair
+  selfLoops: number;
+}
+
+// Unique key per (u, v) pair for edge lists over ids 0..maxId
+function pairKeys(edges: Edge[]): (u: number, v: number) => number {
+  let maxId = 0;
+  for (const [u, v] of edges) maxId = Math.max(maxId, u, v);
+  const stride = maxId + 1;
+  return (u, v) => u * stride + v;
+}
+
+export function countEdges(edges: Edge[]): EdgeCounts {
+  const key = pairKeys(edges);
+  const seen = new Set<number>();
+  let duplicates = 0, selfLoops = 0;
+  for (const [u, v] of edges) {
+    if (u === v) selfLoops++;
+    const k = key(u, v);
+    if (seen.has(k)) duplicates++;
+    else seen.add(k);
+  }
+  return { duplicates, selfLoops };
+}
+
+// Drop what `mode` rejects: repeated u -> v edges (the first is kept) and/or self-loops.
+// Returns the input array itself when nothing is dropped.
+export function applyGraphMode(edges: Edge[], mode: GraphMode): Edge[] {
+  if (mode.multigraph && mode.selfLoops) return edges;
+  const key = pairKeys(edges);
+  const seen = new Set<number>();
+  const kept = edges.filter(([u, v]) => {
+    if (u === v && !mode.selfLoops) return false;
+    if (mode.multigraph) return true;
+    const k = key(u, v);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+  return kept.length === edges.length ? edges : kept;
+}
+
+// -------------------- Graph Structures --------------------
+
+// Swap-remove the first occurrence of x; neighbor order is not significant
+function removeOne(arr: number[], x: number): boolean {
+  const i = arr.indexOf(x);
+  if (i < 0) return false;
+  arr[i] = arr[arr.length - 1];
+  arr.pop();
+  return true;
+}
+
+function removeAll(arr: number[], x: number): void {
+  let w = 0;
+  for (let r = 0; r < arr.length; r++) if (arr[r] !== x) arr[w++] = arr[r];
+  arr.length = w;
+}
+
+// Swap-remove index i from a list and its aligned attribute records
+function removeAt(arr: number[], records: EdgeAttributes[], i: number): void {
+  arr[i] = arr[arr.length - 1];
+  records[i] = records[records.length - 1];
+  arr.pop();
+  records.pop();
+}
+
+// removeAll() that keeps aligned attribute records in step
+function removeAllWith(arr: number[], records: EdgeAttributes[], x: number): void {
+  let w = 0;
+  for (let r = 0; r < arr.length; r++) {
+    if (arr[r] !== x) {
+      arr[w] = arr[r];
+      records[w++] = records[r];
+    }
+  }
+  arr.length = w;
+  records.length = w;
+}
+
+// forEachOut / iterateOut / fillOut over plain out lists (AL, AM+AL, HASH)
+function listNeighborApis(out: number[][]): Pick<GraphStructure, 'forEachOut' | 'iterateOut' | 'fillOut'> {
+  return {
+    forEachOut: (u, visit) => {
+      const list = out[u];
+      for (let i = 0; i < list.length; i++) visit(list[i]);
+    },
+    iterateOut: function* (u) {
+      const list = out[u];
+      for (let i = 0; i < list.length; i++) yield list[i];
+    },
+    fillOut: (u, buffer) => {
+      const list = out[u];
+      if (list.length <= buffer.length) buffer.set(list);
+      return list.length;
+    },
+  };
+}
+
+// Slots and type share one 32-bit word in the typed-array representations
+function packSlots(a: EdgeAttributes): number {
+  return (a.outSlot & 0xFF) | ((a.inSlot & 0xFF) << 8) | ((a.type & 0xFFFF) << 16);
+}
+
+function unpackAttributes(weight: number, packed: number): EdgeAttributes {
+  return { weight, outSlot: packed & 0xFF, inSlot: (packed >>> 8) & 0xFF, type: packed >>> 16 };
+}
+
+// Attributes as the packed representations store them: Float32 weight, 8-bit slots, 16-bit type
+function normalizeAttributes(a: EdgeAttributes): EdgeAttributes {
+  return unpackAttributes(Math.fround(a.weight), packSlots(a));
+}
+
+// Re-key a sparse per-cell Map from rows of `from` cells to rows of `to`
+function restrideKeys<V>(cells: Map<number, V>, from: number, to: number): Map<number, V> {
+  return new Map(Array.from(cells, ([cell, value]) => [((cell / from) | 0) * to + (cell % from), value]));
+}
+
+// Copy of `arr` at a larger length; the tail keeps what `make` filled it with
+function growArray<T extends Int32Array | Float32Array | Uint32Array>(arr: T, length: number, make: (length: number) => T): T {
+  const grown = make(length);
+  grown.set(arr);
+  return grown;
+}
+
+// Copy every set bit of an n*n bitset into a fresh (n+1)*(n+1) bitset: O(n²/32 + E)
+function growBitset(bits: Uint32Array, n: number): Uint32Array {
+  const m = n + 1;
+  const grown = new Uint32Array(Math.ceil((m * m) / 32));
+  for (let w = 0; w < bits.length; w++) {
+    let word = bits[w];
+    while (word !== 0) {
+      const bit = 31 - Math.clz32(word & -word);
+      word &= word - 1;
+      const idx = (w << 5) + bit;
+      const u = (idx / n) | 0, v = idx - u * n;
+      const nidx = u * m + v;
+      grown[nidx >>> 5] |= (1 << (nidx & 31));
+    }
+  }
+  return grown;
+}
+
+// AM bitset: compact n*n bits using Uint32Array
+// Edge attributes live in a sparse Map by cell index, holding only edges added with attributes
+// (the rest read DEFAULT_EDGE_ATTRIBUTES): dense n*n planes would cost 64x the bitset.
+// A bit holds one edge, so in multigraph mode further parallel edges are counted in another
+// sparse Map; they share the cell's attributes (the latest write wins).
+export function makeAM(n: number, edges: Edge[], mode: GraphMode = DEFAULT_GRAPH_MODE): GraphStructure {
+  let bits: Uint32Array = new Uint32Array(Math.ceil((n * n) / 32));
+  let attributes = new Map<number, EdgeAttributes>();
+  let parallel = new Map<number, number>();
+
+  // Copies of cell idx beyond the first
+  const extra = (idx: number) => (parallel.size ? parallel.get(idx) ?? 0 : 0);
+
+  const set = (u: number, v: number, attrs?: EdgeAttributes): boolean => {
+    if (u === v && !mode.selfLoops) return false;
+    const idx = u * n + v;
+    if ((bits[idx >>> 5] >>> (idx & 31)) & 1) {
+      if (!mode.multigraph) return false;
+      parallel.set(idx, extra(idx) + 1);
+    }
+    bits[idx >>> 5] |= (1 << (idx & 31));
+    if (attrs) attributes.set(idx, normalizeAttributes(attrs));
+    else attributes.delete(idx);
+    return true;
+  };
+
+  const clear = (u: number, v: number) => {
+    const idx = u * n + v;
+    bits[idx >>> 5] &= ~(1 << (idx & 31));
+    if (attributes.size) attributes.delete(idx);
+  };
+
+  const has = (u: number, v: number): boolean => {
+    const idx = u * n + v;
+    return Boolean((bits[idx >>> 5] >>> (idx & 31)) & 1);
+  };
+
+  const outNeighbors = (u: number) => {
+    const arr = [];
+    const base = u * n;
+    // Scan row; bitset means O(n). This is the cost of AM.
+    for (let v = 0; v < n; v++) {
+      const idx = base + v;
+      if ((bits[idx >>> 5] >>> (idx & 31)) & 1) {
+        arr.push(v);
+        for (let k = extra(idx); k > 0; k--) arr.push(v);
+      }
+    }
+    return arr;
+  };
+
+  const inNeighbors = (v: number) => {
+    const arr = [];
+    for (let u = 0; u < n; u++) {
+      const idx = u * n + v;
+      if ((bits[idx >>> 5] >>> (idx & 31)) & 1) {
+        arr.push(u);
+        for (let k = extra(idx); k > 0; k--) arr.push(u);
+      }
+    }
+    return arr;
+  };
+
+  // The same bit-by-bit row scan without building an array
+  const forEachOut = (u: number, visit: (v: number) => void) => {
+    const base = u * n;
+    for (let v = 0; v < n; v++) {
+      const idx = base + v;
+      if ((bits[idx >>> 5] >>> (idx & 31)) & 1) for (let k = extra(idx); k >= 0; k--) visit(v);
+    }
+  };
+
+  function* iterateOut(u: number) {
+    const base = u * n;
+    for (let v = 0; v < n; v++) {
+      const idx = base + v;
+      if ((bits[idx >>> 5] >>> (idx & 31)) & 1) for (let k = extra(idx); k >= 0; k--) yield v;
+    }
+  }
+
+  const fillOut = (u: number, buffer: Int32Array) => {
+    const base = u * n;
+    let count = 0;
+    for (let v = 0; v < n; v++) {
+      const idx = base + v;
+      if ((bits[idx >>> 5] >>> (idx & 31)) & 1) {
+        for (let k = extra(idx); k >= 0; k--) {
+          if (count < buffer.length) buffer[count] = v;
+          count++;
+        }
+      }
+    }
+    return count;
+  };
+
+  // Edges without an entry have the default attributes
+  const edgeAttributes = (u: number, v: number): EdgeAttributes | undefined => {
+    if (!has(u, v)) return undefined;
+    return { ...(attributes.get(u * n + v) ?? DEFAULT_EDGE_ATTRIBUTES) };
+  };
+
+  const weight = (u: number, v: number): number | undefined => {
+    if (!has(u, v)) return undefined;
+    return (attributes.get(u * n + v) ?? DEFAULT_EDGE_ATTRIBUTES).weight;
+  };
+
+  // Row scan like outNeighbors, filtered on the output slot
+  const slotNeighbors = (u: number, slot: number) => {
+    if (!attributes.size) return slot === DEFAULT_EDGE_ATTRIBUTES.outSlot ? outNeighbors(u) : [];
+    const arr = [];
+    const base = u * n;
+    for (let v = 0; v < n; v++) {
+      const idx = base + v;
+      if (((bits[idx >>> 5] >>> (idx & 31)) & 1) && (attributes.get(idx) ?? DEFAULT_EDGE_ATTRIBUTES).outSlot === slot) {
+        for (let k = extra(idx); k >= 0; k--) arr.push(v);
+      }
+    }
+    return arr;
+  };
+
+  const removeEdge = (u: number, v: number): boolean => {
+    if (!has(u, v)) return false;
+    const idx = u * n + v;
+    const copies = extra(idx);
+    if (copies > 1) parallel.set(idx, copies - 1);
+    else if (copies === 1) parallel.delete(idx);
+    else clear(u, v);
+    return true;
+  };
+
+  // Row stride changes with n, so a new vertex means re-laying out the whole matrix
+  const addNode = (): number => {
+    bits = growBitset(bits, n);
+    if (attributes.size) attributes = restrideKeys(attributes, n, n + 1);
+    if (parallel.size) parallel = restrideKeys(parallel, n, n + 1);
+    return n++;
+  };
+
+  const removeNode = (u: number) => {
+    for (let w = 0; w < n; w++) {
+      clear(u, w);
+      clear(w, u);
+      if (parallel.size) {
+        parallel.delete(u * n + w);
+        parallel.delete(w * n + u);
+      }
+    }
+  };
+
+  for (const [u, v, attrs] of edges) set(u, v, attrs);
+  return {
+    get n() { return n; },
+    has, outNeighbors, inNeighbors,
+    forEachOut, iterateOut, fillOut,
+    weight, edgeAttributes, slotNeighbors,
+    addEdge: set, removeEdge, addNode, removeNode,
+  };
+}
+
+// Copy `rows` rows of `from` entries into a fresh array of `length` with rows of `to` entries
+function restride<T extends Uint32Array>(src: T, rows: number, from: number, to: number, length: number, make: (length: number) => T): T {
+  const dst = make(length);
+  for (let r = 0; r < rows; r++) dst.set(src.subarray(r * from, r * from + from), r * to);
+  return dst;
+}
+
+// AMT: AM with a transposed (column-major) copy of the bitset, so inNeighbors reads one
+// contiguous run of words like outNeighbors. Rows are padded to whole 32-bit words, and both
+// scans skip empty words and pull set bits out with Math.clz32 instead of testing every cell.
+// The padding leaves room for up to 32 more nodes, so addNode() re-lays out the bitsets only
+// when it runs out. Attributes and parallel edge counts are sparse Maps as in AM.
+export function makeAMT(n: number, edges: Edge[], mode: GraphMode = DEFAULT_GRAPH_MODE): GraphStructure {
+  let words = Math.max(1, Math.ceil(n / 32));  // words per row and per column
+  let stride = words * 32;                     // cells per plane row, >= n
+  let rows: Uint32Array = new Uint32Array(stride * words);
+  let cols: Uint32Array = new Uint32Array(stride * words);
+  let attributes = new Map<number, EdgeAttributes>();
+  let parallel = new Map<number, number>();
+
+  // Copies of cell u * stride + v beyond the first
+  const extra = (cell: number) => (parallel.size ? parallel.get(cell) ?? 0 : 0);
+
+  const has = (u: number, v: number): boolean => ((rows[u * words + (v >>> 5)] >>> (v & 31)) & 1) === 1;
+
+  const set = (u: number, v: number, attrs?: EdgeAttributes): boolean => {
+    if (u === v && !mode.selfLoops) return false;
+    const cell = u * stride + v;
+    if (has(u, v)) {
+      if (!mode.multigraph) return false;
+      parallel.set(cell, extra(cell) + 1);
+    }
+    rows[u * words + (v >>> 5)] |= 1 << (v & 31);
+    cols[v * words + (u >>> 5)] |= 1 << (u & 31);
+    if (attrs) attributes.set(cell, normalizeAttributes(attrs));
+    else attributes.delete(cell);
+    return true;
+  };
+
+  const clear = (u: number, v: number) => {
+    rows[u * words + (v >>> 5)] &= ~(1 << (v & 31));
+    cols[v * words + (u >>> 5)] &= ~(1 << (u & 31));
+    if (attributes.size) attributes.delete(u * stride + v);
+  };
+
+  // Set bits of one row (or column) in ascending order, each repeated for its parallel copies
+  const scan = (bits: Uint32Array, line: number, transposed: boolean) => {
+    const arr: number[] = [];
+    const base = line * words;
+    for (let w = 0; w < words; w++) {
+      let word = bits[base + w];
+      while (word !== 0) {
+        const x = (w << 5) + 31 - Math.clz32(word & -word);
+        word &= word - 1;
+        arr.push(x);
+        for (let k = extra(transposed ? x * stride + line : line * stride + x); k > 0; k--) arr.push(x);
+      }
+    }
+    return arr;
+  };
+
+  const outNeighbors = (u: number) => scan(rows, u, false);
+  const inNeighbors = (v: number) => scan(cols, v, true);
+
+  const forEachOut = (u: number, visit: (v: number) => void) => {
+    const base = u * words;
+    for (let w = 0; w < words; w++) {
+      let word = rows[base + w];
+      while (word !== 0) {
+        const v = (w << 5) + 31 - Math.clz32(word & -word);
+        word &= word - 1;
+        for (let k = extra(u * stride + v); k >= 0; k--) visit(v);
+      }
+    }
+  };
+
+  function* iterateOut(u: number) {
+    const base = u * words;
+    for (let w = 0; w < words; w++) {
+      let word = rows[base + w];
+      while (word !== 0) {
+        const v = (w << 5) + 31 - Math.clz32(word & -word);
+        word &= word - 1;
+        for (let k = extra(u * stride + v); k >= 0; k--) yield v;
+      }
+    }
+  }
+
+  const fillOut = (u: number, buffer: Int32Array) => {
+    const base = u * words;
+    let count = 0;
+    for (let w = 0; w < words; w++) {
+      let word = rows[base + w];
+      while (word !== 0) {
+        const v = (w << 5) + 31 - Math.clz32(word & -word);
+        word &= word - 1;
+        for (let k = extra(u * stride + v); k >= 0; k--) {
+          if (count < buffer.length) buffer[count] = v;
+          count++;
+        }
+      }
+    }
+    return count;
+  };
+
+  const edgeAttributes = (u: number, v: number): EdgeAttributes | undefined => {
+    if (!has(u, v)) return undefined;
+    return { ...(attributes.get(u * stride + v) ?? DEFAULT_EDGE_ATTRIBUTES) };
+  };
+
+  const weight = (u: number, v: number): number | undefined => {
+    if (!has(u, v)) return undefined;
+    return (attributes.get(u * stride + v) ?? DEFAULT_EDGE_ATTRIBUTES).weight;
+  };
+
+  const slotNeighbors = (u: number, slot: number) => {
+    if (!attributes.size) return slot === DEFAULT_EDGE_ATTRIBUTES.outSlot ? outNeighbors(u) : [];
+    const arr: number[] = [];
+    const base = u * words;
+    for (let w = 0; w < words; w++) {
+      let word = rows[base + w];
+      while (word !== 0) {
+        const v = (w << 5) + 31 - Math.clz32(word & -word);
+        word &= word - 1;
+        const cell = u * stride + v;
+        if ((attributes.get(cell) ?? DEFAULT_EDGE_ATTRIBUTES).outSlot === slot) for (let k = extra(cell); k >= 0; k--) arr.push(v);
+      }
+    }
+    return arr;
+  };
+
+  const removeEdge = (u: number, v: number): boolean => {
+    if (!has(u, v)) return false;
+    const cell = u * stride + v;
+    const copies = extra(cell);
+    if (copies > 1) parallel.set(cell, copies - 1);
+    else if (copies === 1) parallel.delete(cell);
+    else clear(u, v);
+    return true;
+  };
+
+  // Padding covers the new node until n reaches the stride; then add one word per row and column
+  const addNode = (): number => {
+    if (n < stride) return n++;
+    const nextWords = words + 1, nextStride = nextWords * 32;
+    rows = restride(rows, stride, words, nextWords, nextStride * nextWords, len => new Uint32Array(len));
+    cols = restride(cols, stride, words, nextWords, nextStride * nextWords, len => new Uint32Array(len));
+    if (attributes.size) attributes = restrideKeys(attributes, stride, nextStride);
+    if (parallel.size) parallel = restrideKeys(parallel, stride, nextStride);
+    words = nextWords;
+    stride = nextStride;
+    return n++;
+  };
+
+  // Only the node's own row and column are scanned: O(V/32 + degree) rather than AM's O(V)
+  const removeNode = (u: number) => {
+    for (const v of outNeighbors(u)) {
+      clear(u, v);
+      if (parallel.size) parallel.delete(u * stride + v);
+    }
+    for (const w of inNeighbors(u)) {
+      clear(w, u);
+      if (parallel.size) parallel.delete(w * stride + u);
+    }
+  };
+
+  for (const [u, v, attrs] of edges) set(u, v, attrs);
+  return {
+    get n() { return n; },
+    has, outNeighbors, inNeighbors,
+    forEachOut, iterateOut, fillOut,
+    weight, edgeAttributes, slotNeighbors,
+    addEdge: set, removeEdge, addNode, removeNode,
+  };
+}
+
+// AL: arrays of out + in neighbors with per-source Maps for fast lookup
+// Each out list has an aligned array of per-edge attribute records; the Map points at one of them
+export function makeAL(n: number, edges: Edge[], mode: GraphMode = DEFAULT_GRAPH_MODE): GraphStructure {
+  const out = Array.from({ length: n }, () => [] as number[]);
+  const inn = Array.from({ length: n }, () => [] as number[]);
+  const outAttrs = Array.from({ length: n }, () => [] as EdgeAttributes[]);
+  const outMap = Array.from({ length: n }, () => new Map<number, EdgeAttributes>());
+
+  const addEdge = (u: number, v: number, attrs: EdgeAttributes = DEFAULT_EDGE_ATTRIBUTES): boolean => {
+    if (u === v && !mode.selfLoops) return false;
+    if (outMap[u].has(v)) {
+      if (!mode.multigraph) return false;
+    } else {
+      outMap[u].set(v, attrs);
+    }
+    out[u].push(v);
+    inn[v].push(u);
+    outAttrs[u].push(attrs);
+    return true;
+  };
+
+  for (const [u, v, attrs] of edges) addEdge(u, v, attrs);
+
+  const has = (u: number, v: number) => outMap[u].has(v);
+  const outNeighbors = (u: number) => out[u];
+  const inNeighbors = (v: number) => inn[v];
+  const weight = (u: number, v: number) => outMap[u].get(v)?.weight;
+  const edgeAttributes = (u: number, v: number) => outMap[u].get(v);
+
+  const slotNeighbors = (u: number, slot: number) => {
+    const arr = [];
+    const list = out[u], records = outAttrs[u];
+    for (let i = 0; i < list.length; i++) if (records[i].outSlot === slot) arr.push(list[i]);
+    return arr;
+  };
+
+  const removeEdge = (u: number, v: number): boolean => {
+    const i = out[u].indexOf(v);
+    if (i < 0) return false;
+    removeAt(out[u], outAttrs[u], i);
+    removeOne(inn[v], u);
+    // Lists may hold parallel edges; the Map entry moves to a remaining one or goes with the last
+    const j = out[u].indexOf(v);
+    if (j < 0) outMap[u].delete(v);
+    else outMap[u].set(v, outAttrs[u][j]);
+    return true;
+  };
+
+  const addNode = (): number => {
+    out.push([]);
+    inn.push([]);
+    outAttrs.push([]);
+    outMap.push(new Map());
+    return n++;
+  };
+
+  const removeNode = (u: number) => {
+    for (const w of out[u]) removeAll(inn[w], u);
+    for (const w of inn[u]) {
+      removeAllWith(out[w], outAttrs[w], u);
+      outMap[w].delete(u);
+    }
+    out[u] = [];
+    inn[u] = [];
+    outAttrs[u] = [];
+    outMap[u].clear();
+  };
+
+  // Deep copy: every edge, with a copy of its record, replayed into a fresh build
+  const clone = () => {
+    const copied: Edge[] = [];
+    for (let u = 0; u < n; u++) {
+      const list = out[u], records = outAttrs[u];
+      for (let i = 0; i < list.length; i++) copied.push([u, list[i], { ...records[i] }]);
+    }
+    return makeAL(n, copied, mode);
+  };
+
+  return {
+    get n() { return n; },
+    has, outNeighbors, inNeighbors,
+    ...listNeighborApis(out),
+    weight, edgeAttributes, slotNeighbors,
+    addEdge, removeEdge, addNode, removeNode, clone,
+  };
+}
+
+// AM + AL "synced" - maintains both representations
+// Attributes are kept once, as AL per-edge records; the bitset only answers has()
+export function makeAM_AL(n: number, edges: Edge[], mode: GraphMode = DEFAULT_GRAPH_MODE): GraphStructure {
+  let bits: Uint32Array = new Uint32Array(Math.ceil((n * n) / 32));
+  const out = Array.from({ length: n }, () => [] as number[]);
+  const inn = Array.from({ length: n }, () => [] as number[]);
+  const outAttrs = Array.from({ length: n }, () => [] as EdgeAttributes[]);
+  const outMap = Array.from({ length: n }, () => new Map<number, EdgeAttributes>());
+
+  const setBit = (u: number, v: number) => {
+    const idx = u * n + v;
+    bits[idx >>> 5] |= (1 << (idx & 31));
+  };
+
+  const clearBit = (u: number, v: number) => {
+    const idx = u * n + v;
+    bits[idx >>> 5] &= ~(1 << (idx & 31));
+  };
+
+  const addEdge = (u: number, v: number, attrs: EdgeAttributes = DEFAULT_EDGE_ATTRIBUTES): boolean => {
+    if (u === v && !mode.selfLoops) return false;
+    if (outMap[u].has(v)) {
+      if (!mode.multigraph) return false;
+    } else {
+      // Update AM
+      setBit(u, v);
+      outMap[u].set(v, attrs);
+    }
+
+    // Update AL
+    out[u].push(v);
+    inn[v].push(u);
+    outAttrs[u].push(attrs);
+    return true;
+  };
+
+  for (const [u, v, attrs] of edges) addEdge(u, v, attrs);
+
+  const hasAM = (u: number, v: number): boolean => {
+    const idx = u * n + v;
+    return Boolean((bits[idx >>> 5] >>> (idx & 31)) & 1);
+  };
+
+  // Answered by the bitset alone: neighbors come from the lists, so the verification phase
+  // (lib/verify.ts) catches the two halves drifting apart
+  const has = hasAM;
+
+  const outNeighbors = (u: number) => out[u];
+  const inNeighbors = (v: number) => inn[v];
+  // The bit rejects absent edges before touching the Map
+  const weight = (u: number, v: number) => (hasAM(u, v) ? outMap[u].get(v)?.weight : undefined);
+  const edgeAttributes = (u: number, v: number) => (hasAM(u, v) ? outMap[u].get(v) : undefined);
+
+  const slotNeighbors = (u: number, slot: number) => {
+    const arr = [];
+    const list = out[u], records = outAttrs[u];
+    for (let i = 0; i < list.length; i++) if (records[i].outSlot === slot) arr.push(list[i]);
+    return arr;
+  };
+
+  const removeEdge = (u: number, v: number): boolean => {
+    const i = out[u].indexOf(v);
+    if (i < 0) return false;
+    removeAt(out[u], outAttrs[u], i);
+    removeOne(inn[v], u);
+    // Keep the bit and Map entry while a parallel edge remains
+    const j = out[u].indexOf(v);
+    if (j < 0) {
+      outMap[u].delete(v);
+      clearBit(u, v);
+    } else {
+      outMap[u].set(v, outAttrs[u][j]);
+    }
+    return true;
+  };
+
+  const addNode = (): number => {
+    bits = growBitset(bits, n);
+    out.push([]);
+    inn.push([]);
+    outAttrs.push([]);
+    outMap.push(new Map());
+    return n++;
+  };
+
+  const removeNode = (u: number) => {
+    for (const w of out[u]) {
+      removeAll(inn[w], u);
+      clearBit(u, w);
+    }
+    for (const w of inn[u]) {
+      removeAllWith(out[w], outAttrs[w], u);
+      outMap[w].delete(u);
+      clearBit(w, u);
+    }
+    out[u] = [];
+    inn[u] = [];
+    outAttrs[u] = [];
+    outMap[u].clear();
+  };
+
+  return {
+    get n() { return n; },
+    has, outNeighbors, inNeighbors,
+    ...listNeighborApis(out),
+    weight, edgeAttributes, slotNeighbors,
+    addEdge, removeEdge, addNode, removeNode,
+  };
+}
+
+// OOP / "LiteGraph-ish"
+// Links sit in one bucket per output slot on the source and per input slot on the target
+export function makeOOP(n: number, edges: Edge[], mode: GraphMode = DEFAULT_GRAPH_MODE): GraphStructure {
+  class MyLink {
+    id: number;
+    from: number;
+    to: number;
+    originSlot: number;
+    targetSlot: number;
+    type: number;
+    weight: number;
+    constructor(id: number, from: number, to: number, attrs: EdgeAttributes) {
+      this.id = id;
+      this.from = from;
+      this.to = to;
+      this.originSlot = attrs.outSlot;
+      this.targetSlot = attrs.inSlot;
+      this.type = attrs.type;
+      this.weight = attrs.weight;
+    }
+  }
+
+  class MyNode {
+    id: number;
+    outputs: MyLink[][]; // array of arrays of Links (one bucket per "slot")
+    inputs: MyLink[][];  // mirror for quick in traversal
+
+    constructor(id: number) {
+      this.id = id;
+      this.outputs = [];
+      this.inputs = [];
+    }
+  }
+
+  // Detach a link from a slot bucket (swap-remove, slot order is not significant)
+  const unlinkFrom = (bucket: MyLink[] | undefined, link: MyLink) => {
+    if (!bucket) return;
+    const i = bucket.indexOf(link);
+    if (i < 0) return;
+    bucket[i] = bucket[bucket.length - 1];
+    bucket.pop();
+  };
+
+  class MyNetwork {
+    nodes: MyNode[];
+    links: Map<number, MyLink>; // keyed by link id, like LiteGraph's graph.links
+    lastLinkId: number;
+
+    constructor() {
+      this.nodes = [];
+      this.links = new Map();
+      this.lastLinkId = 0;
+    }
+
+    addNode(node: MyNode) {
+      this.nodes[node.id] = node;
+    }
+
+    connect(u: number, v: number, attrs: EdgeAttributes): boolean {
+      if (u === v && !mode.selfLoops) return false;
+      if (!mode.multigraph && this.findLink(u, v)) return false;
+      const link = new MyLink(++this.lastLinkId, u, v, attrs);
+      const from = this.nodes[u], to = this.nodes[v];
+      if (!from.outputs[link.originSlot]) from.outputs[link.originSlot] = [];
+      from.outputs[link.originSlot].push(link);
+
+      if (!to.inputs[link.targetSlot]) to.inputs[link.targetSlot] = [];
+      to.inputs[link.targetSlot].push(link);
+
+      this.links.set(link.id, link);
+      return true;
+    }
+
+    // Linear scan over every output slot of u
+    findLink(u: number, v: number): MyLink | undefined {
+      const outputs = this.nodes[u].outputs;
+      for (let s = 0; s < outputs.length; s++) {
+        const bucket = outputs[s];
+        if (!bucket) continue;
+        for (let i = 0; i < bucket.length; i++) {
+          if (bucket[i].to === v) return bucket[i];
+        }
+      }
+      return undefined;
+    }
+
+    disconnect(u: number, v: number): boolean {
+      const link = this.findLink(u, v);
+      if (!link) return false;
+      this.removeLink(link);
+      return true;
+    }
+
+    removeLink(link: MyLink) {
+      unlinkFrom(this.nodes[link.from].outputs[link.originSlot], link);
+      unlinkFrom(this.nodes[link.to].inputs[link.targetSlot], link);
+      this.links.delete(link.id);
+    }
+
+    // Node ids stay stable: the node is disconnected and left in place, empty
+    removeNode(u: number) {
+      const node = this.nodes[u];
+      for (const bucket of [...node.outputs, ...node.inputs]) {
+        if (!bucket) continue;
+        for (const link of bucket.slice()) this.removeLink(link);
+      }
+    }
+
+    hasEdge(u: number, v: number): boolean {
+      return this.findLink(u, v) !== undefined;
+    }
+
+    outNeighbors(u: number): number[] {
+      const out: number[] = [];
+      for (const bucket of this.nodes[u].outputs) {
+        if (!bucket) continue;
+        for (let i = 0; i < bucket.length; i++) out.push(bucket[i].to);
+      }
+      return out;
+    }
+
+    forEachOut(u: number, visit: (v: number) => void) {
+      for (const bucket of this.nodes[u].outputs) {
+        if (!bucket) continue;
+        for (let i = 0; i < bucket.length; i++) visit(bucket[i].to);
+      }
+    }
+
+    *iterateOut(u: number) {
+      for (const bucket of this.nodes[u].outputs) {
+        if (!bucket) continue;
+        for (let i = 0; i < bucket.length; i++) yield bucket[i].to;
+      }
+    }
+
+    fillOut(u: number, buffer: Int32Array): number {
+      let count = 0;
+      for (const bucket of this.nodes[u].outputs) {
+        if (!bucket) continue;
+        for (let i = 0; i < bucket.length; i++) {
+          if (count < buffer.length) buffer[count] = bucket[i].to;
+          count++;
+        }
+      }
+      return count;
+    }
+
+    inNeighbors(v: number): number[] {
+      const inn: number[] = [];
+      for (const bucket of this.nodes[v].inputs) {
+        if (!bucket) continue;
+        for (let i = 0; i < bucket.length; i++) inn.push(bucket[i].from);
+      }
+      return inn;
+    }
+
+    slotNeighbors(u: number, slot: number): number[] {
+      const bucket = this.nodes[u].outputs[slot];
+      if (!bucket) return [];
+      const out = new Array(bucket.length);
+      for (let i = 0; i < bucket.length; i++) out[i] = bucket[i].to;
+      return out;
+    }
+  }
+
+  const net = new MyNetwork();
+  for (let i = 0; i < n; i++) net.addNode(new MyNode(i));
+  for (const [u, v, attrs] of edges) net.connect(u, v, attrs ?? DEFAULT_EDGE_ATTRIBUTES);
+
+  return {
+    get n() { return n; },
+    has: (u: number, v: number) => net.hasEdge(u, v),
+    outNeighbors: (u: number) => net.outNeighbors(u),
+    inNeighbors: (v: number) => net.inNeighbors(v),
+    forEachOut: (u: number, visit: (v: number) => void) => net.forEachOut(u, visit),
+    iterateOut: (u: number) => net.iterateOut(u),
+    fillOut: (u: number, buffer: Int32Array) => net.fillOut(u, buffer),
+    weight: (u: number, v: number) => net.findLink(u, v)?.weight,
+    edgeAttributes: (u: number, v: number) => {
+      const link = net.findLink(u, v);
+      return link && { weight: link.weight, outSlot: link.originSlot, inSlot: link.targetSlot, type: link.type };
+    },
+    slotNeighbors: (u: number, slot: number) => net.slotNeighbors(u, slot),
+    addEdge: (u: number, v: number, attrs: EdgeAttributes = DEFAULT_EDGE_ATTRIBUTES) => net.connect(u, v, attrs),
+    removeEdge: (u: number, v: number) => net.disconnect(u, v),
+    addNode: () => {
+      net.addNode(new MyNode(n));
+      return n++;
+    },
+    removeNode: (u: number) => net.removeNode(u),
+    // Deep copy: every link, in creation order, reconnected in a fresh network
+    clone: () => {
+      const copied: Edge[] = [];
+      for (const link of net.links.values()) {
+        copied.push([link.from, link.to, { weight: link.weight, outSlot: link.originSlot, inSlot: link.targetSlot, type: link.type }]);
+      }
+      return makeOOP(n, copied, mode);
+    },
+  };
+}
+
+// SOA: the OOP layout turned into a struct of arrays, ECS-style. Link fields live in typed
+// arrays indexed by link id, removed ids are recycled through a free list, and every node
+// threads its output and input links through intrusive doubly linked lists of link ids.
+// SoaNode / SoaLink handles keep MyNode / MyLink's object-facing API over the arrays.
+export function makeSoA(n: number, edges: Edge[], mode: GraphMode = DEFAULT_GRAPH_MODE): GraphStructure {
+  const NONE = -1;
+  let nodeCapacity = Math.max(16, n);
+  let firstOut = new Int32Array(nodeCapacity).fill(NONE);  // head of each node's output list
+  let firstIn = new Int32Array(nodeCapacity).fill(NONE);
+
+  let linkCapacity = Math.max(16, edges.length);
+  let linkFrom = new Int32Array(linkCapacity);  // NONE while the id is on the free list
+  let linkTo = new Int32Array(linkCapacity);
+  let linkWeight = new Float32Array(linkCapacity);
+  let linkSlots = new Uint32Array(linkCapacity);  // packSlots(): origin slot, target slot, type
+  let nextOut = new Int32Array(linkCapacity);     // also chains the free list
+  let prevOut = new Int32Array(linkCapacity);
+  let nextIn = new Int32Array(linkCapacity);
+  let prevIn = new Int32Array(linkCapacity);
+  let linkCount = 0;   // ids handed out so far, live or free
+  let freeHead = NONE;
+
+  class SoaLink {
+    id: number;
+    constructor(id: number) {
+      this.id = id;
+    }
+    get from() { return linkFrom[this.id]; }
+    get to() { return linkTo[this.id]; }
+    get originSlot() { return linkSlots[this.id] & 0xFF; }
+    get targetSlot() { return (linkSlots[this.id] >>> 8) & 0xFF; }
+    get type() { return linkSlots[this.id] >>> 16; }
+    get weight() { return linkWeight[this.id]; }
+  }
+
+  class SoaNode {
+    id: number;
+    constructor(id: number) {
+      this.id = id;
+    }
+    get outputs(): SoaLink[] {
+      const links: SoaLink[] = [];
+      for (let l = firstOut[this.id]; l !== NONE; l = nextOut[l]) links.push(new SoaLink(l));
+      return links;
+    }
+    get inputs(): SoaLink[] {
+      const links: SoaLink[] = [];
+      for (let l = firstIn[this.id]; l !== NONE; l = nextIn[l]) links.push(new SoaLink(l));
+      return links;
+    }
+  }
+
+  const growLinks = () => {
+    linkCapacity *= 2;
+    linkFrom = growArray(linkFrom, linkCapacity, len => new Int32Array(len));
+    linkTo = growArray(linkTo, linkCapacity, len => new Int32Array(len));
+    linkWeight = growArray(linkWeight, linkCapacity, len => new Float32Array(len));
+    linkSlots = growArray(linkSlots, linkCapacity, len => new Uint32Array(len));
+    nextOut = growArray(nextOut, linkCapacity, len => new Int32Array(len));
+    prevOut = growArray(prevOut, linkCapacity, len => new Int32Array(len));
+    nextIn = growArray(nextIn, linkCapacity, len => new Int32Array(len));
+    prevIn = growArray(prevIn, linkCapacity, len => new Int32Array(len));
+  };
+
+  // Linear walk of u's output list; the link id, or NONE
+  const findLink = (u: number, v: number): number => {
+    for (let l = firstOut[u]; l !== NONE; l = nextOut[l]) {
+      if (linkTo[l] === v) return l;
+    }
+    return NONE;
+  };
+
+  const has = (u: number, v: number): boolean => findLink(u, v) !== NONE;
+
+  // New links go to the front of both lists
+  const addEdge = (u: number, v: number, attrs: EdgeAttributes = DEFAULT_EDGE_ATTRIBUTES): boolean => {
+    if (u === v && !mode.selfLoops) return false;
+    if (!mode.multigraph && has(u, v)) return false;
+    let l: number;
+    if (freeHead !== NONE) {
+      l = freeHead;
+      freeHead = nextOut[l];
+    } else {
+      if (linkCount === linkCapacity) growLinks();
+      l = linkCount++;
+    }
+    linkFrom[l] = u;
+    linkTo[l] = v;
+    linkWeight[l] = attrs.weight;
+    linkSlots[l] = packSlots(attrs);
+
+    prevOut[l] = NONE;
+    nextOut[l] = firstOut[u];
+    if (firstOut[u] !== NONE) prevOut[firstOut[u]] = l;
+    firstOut[u] = l;
+
+    prevIn[l] = NONE;
+    nextIn[l] = firstIn[v];
+    if (firstIn[v] !== NONE) prevIn[firstIn[v]] = l;
+    firstIn[v] = l;
+    return true;
+  };
+
+  for (const [u, v, attrs] of edges) addEdge(u, v, attrs);
+
+  // O(1) unlink from both lists; the id goes onto the free list
+  const removeLink = (l: number) => {
+    const u = linkFrom[l], v = linkTo[l];
+    if (prevOut[l] !== NONE) nextOut[prevOut[l]] = nextOut[l];
+    else firstOut[u] = nextOut[l];
+    if (nextOut[l] !== NONE) prevOut[nextOut[l]] = prevOut[l];
+
+    if (prevIn[l] !== NONE) nextIn[prevIn[l]] = nextIn[l];
+    else firstIn[v] = nextIn[l];
+    if (nextIn[l] !== NONE) prevIn[nextIn[l]] = prevIn[l];
+
+    linkFrom[l] = NONE;
+    nextOut[l] = freeHead;
+    freeHead = l;
+  };
+
+  const removeEdge = (u: number, v: number): boolean => {
+    const l = findLink(u, v);
+    if (l === NONE) return false;
+    removeLink(l);
+    return true;
+  };
+
+  const outNeighbors = (u: number) => {
+    const arr: number[] = [];
+    for (let l = firstOut[u]; l !== NONE; l = nextOut[l]) arr.push(linkTo[l]);
+    return arr;
+  };
+
+  const inNeighbors = (v: number) => {
+    const arr: number[] = [];
+    for (let l = firstIn[v]; l !== NONE; l = nextIn[l]) arr.push(linkFrom[l]);
+    return arr;
+  };
+
+  const forEachOut = (u: number, visit: (v: number) => void) => {
+    for (let l = firstOut[u]; l !== NONE; l = nextOut[l]) visit(linkTo[l]);
+  };
+
+  function* iterateOut(u: number) {
+    for (let l = firstOut[u]; l !== NONE; l = nextOut[l]) yield linkTo[l];
+  }
+
+  const fillOut = (u: number, buffer: Int32Array) => {
+    let count = 0;
+    for (let l = firstOut[u]; l !== NONE; l = nextOut[l]) {
+      if (count < buffer.length) buffer[count] = linkTo[l];
+      count++;
+    }
+    return count;
+  };
+
+  // Attribute reads go through a link handle, as the node editor would
+  const linkBetween = (u: number, v: number): SoaLink | undefined => {
+    const l = findLink(u, v);
+    return l === NONE ? undefined : new SoaLink(l);
+  };
+
+  const slotNeighbors = (u: number, slot: number) => {
+    const arr: number[] = [];
+    for (let l = firstOut[u]; l !== NONE; l = nextOut[l]) {
+      if ((linkSlots[l] & 0xFF) === slot) arr.push(linkTo[l]);
+    }
+    return arr;
+  };
+
+  const addNode = (): number => {
+    if (n === nodeCapacity) {
+      nodeCapacity *= 2;
+      firstOut = growArray(firstOut, nodeCapacity, len => new Int32Array(len).fill(NONE));
+      firstIn = growArray(firstIn, nodeCapacity, len => new Int32Array(len).fill(NONE));
+    }
+    return n++;
+  };
+
+  // Node ids stay stable: the node is disconnected and left in place, empty
+  const removeNode = (u: number) => {
+    const node = new SoaNode(u);
+    for (const link of node.outputs) removeLink(link.id);
+    for (const link of node.inputs) removeLink(link.id);
+  };
+
+  return {
+    get n() { return n; },
+    has, outNeighbors, inNeighbors,
+    forEachOut, iterateOut, fillOut,
+    weight: (u: number, v: number) => linkBetween(u, v)?.weight,
+    edgeAttributes: (u: number, v: number) => {
+      const link = linkBetween(u, v);
+      return link && { weight: link.weight, outSlot: link.originSlot, inSlot: link.targetSlot, type: link.type };
+    },
+    slotNeighbors,
+    addEdge, removeEdge, addNode, removeNode,
+  };
+}
+
+interface SparseIndex {
+  offsets: Int32Array;
+  targets: Int32Array;
+  // Per-entry attributes aligned with targets (CSR rows only; the CSC transpose has none)
+  weights?: Float32Array;
+  slots?: Uint32Array;
+}
+
+// First position in row `row` whose target is >= value
+function lowerBound(index: SparseIndex, row: number, value: number): number {
+  let lo = index.offsets[row];
+  let hi = index.offsets[row + 1];
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (index.targets[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Copy of `arr` with `value` inserted at pos
+function spliceIn<T extends Int32Array | Float32Array | Uint32Array>(arr: T, pos: number, value: number, make: (length: number) => T): T {
+  const next = make(arr.length + 1);
+  next.set(arr.subarray(0, pos));
+  next[pos] = value;
+  next.set(arr.subarray(pos), pos + 1);
+  return next;
+}
+
+// Copy of `arr` without the `count` entries at pos
+function spliceOut<T extends Int32Array | Float32Array | Uint32Array>(arr: T, pos: number, count: number, make: (length: number) => T): T {
+  const next = make(arr.length - count);
+  next.set(arr.subarray(0, pos));
+  next.set(arr.subarray(pos + count), pos);
+  return next;
+}
+
+// Packed arrays have no slack: every mutation copies targets, O(V + E)
+function sparseInsert(index: SparseIndex, row: number, value: number, attrs: EdgeAttributes = DEFAULT_EDGE_ATTRIBUTES): void {
+  const pos = lowerBound(index, row, value);
+  index.targets = spliceIn(index.targets, pos, value, len => new Int32Array(len));
+  if (index.weights) index.weights = spliceIn(index.weights, pos, attrs.weight, len => new Float32Array(len));
+  if (index.slots) index.slots = spliceIn(index.slots, pos, packSlots(attrs), len => new Uint32Array(len));
+  for (let i = row + 1; i < index.offsets.length; i++) index.offsets[i]++;
+}
+
+function sparseRemoveRange(index: SparseIndex, row: number, start: number, count: number): void {
+  index.targets = spliceOut(index.targets, start, count, len => new Int32Array(len));
+  if (index.weights) index.weights = spliceOut(index.weights, start, count, len => new Float32Array(len));
+  if (index.slots) index.slots = spliceOut(index.slots, start, count, len => new Uint32Array(len));
+  for (let i = row + 1; i < index.offsets.length; i++) index.offsets[i] -= count;
+}
+
+function sparseRemove(index: SparseIndex, row: number, value: number): boolean {
+  const pos = lowerBound(index, row, value);
+  if (pos >= index.offsets[row + 1] || index.targets[pos] !== value) return false;
+  sparseRemoveRange(index, row, pos, 1);
+  return true;
+}
+
+function sparseAddRow(index: SparseIndex): void {
+  const offsets = new Int32Array(index.offsets.length + 1);
+  offsets.set(index.offsets);
+  offsets[offsets.length - 1] = index.targets.length;
+  index.offsets = offsets;
+}
+
+// CSR: offsets + packed Int32Array of targets, with a transposed CSC index for inNeighbors
+// Rows are sorted so has() is a binary search; neighbor lists are subarray views (no copying).
+// Weights and packed slots/type are parallel arrays aligned with the CSR targets.
+export function makeCSR(n: number, edges: Edge[], mode: GraphMode = DEFAULT_GRAPH_MODE): GraphStructure {
+  edges = applyGraphMode(edges, mode);
+
+  const buildIndex = (from: 0 | 1, withAttributes: boolean): SparseIndex => {
+    const to = from === 0 ? 1 : 0;
+    const offsets = new Int32Array(n + 1);
+    for (const e of edges) offsets[e[from] + 1]++;
+    for (let i = 0; i < n; i++) offsets[i + 1] += offsets[i];
+
+    // Counting-sort edge ids into their rows, then sort each row by target
+    // (ids rather than targets, so attributes follow their edge)
+    const cursor = offsets.slice(0, n);
+    const order = new Int32Array(edges.length);
+    for (let k = 0; k < edges.length; k++) order[cursor[edges[k][from]]++] = k;
+    for (let i = 0; i < n; i++) order.subarray(offsets[i], offsets[i + 1]).sort((a, b) => edges[a][to] - edges[b][to]);
+
+    const targets = new Int32Array(edges.length);
+    for (let k = 0; k < order.length; k++) targets[k] = edges[order[k]][to];
+    if (!withAttributes) return { offsets, targets };
+
+    const weights = new Float32Array(edges.length);
+    const slots = new Uint32Array(edges.length);
+    for (let k = 0; k < order.length; k++) {
+      const attrs = edges[order[k]][2] ?? DEFAULT_EDGE_ATTRIBUTES;
+      weights[k] = attrs.weight;
+      slots[k] = packSlots(attrs);
+    }
+    return { offsets, targets, weights, slots };
+  };
+
+  const csr = buildIndex(0, true);
+  const csc = buildIndex(1, false);
+
+  // Position of the first u -> v entry, or -1
+  const find = (u: number, v: number): number => {
+    const pos = lowerBound(csr, u, v);
+    return pos < csr.offsets[u + 1] && csr.targets[pos] === v ? pos : -1;
+  };
+
+  const has = (u: number, v: number): boolean => find(u, v) >= 0;
+
+  const outNeighbors = (u: number) => csr.targets.subarray(csr.offsets[u], csr.offsets[u + 1]);
+  const inNeighbors = (v: number) => csc.targets.subarray(csc.offsets[v], csc.offsets[v + 1]);
+
+  // Straight reads of the row, without even the subarray view
+  const forEachOut = (u: number, visit: (v: number) => void) => {
+    const { offsets, targets } = csr;
+    for (let i = offsets[u], end = offsets[u + 1]; i < end; i++) visit(targets[i]);
+  };
+
+  function* iterateOut(u: number) {
+    const { offsets, targets } = csr;
+    for (let i = offsets[u], end = offsets[u + 1]; i < end; i++) yield targets[i];
+  }
+
+  const fillOut = (u: number, buffer: Int32Array) => {
+    const { offsets, targets } = csr;
+    const start = offsets[u], count = offsets[u + 1] - start;
+    if (count <= buffer.length) for (let i = 0; i < count; i++) buffer[i] = targets[start + i];
+    return count;
+  };
+
+  const weight = (u: number, v: number) => {
+    const pos = find(u, v);
+    return pos < 0 ? undefined : csr.weights![pos];
+  };
+
+  const edgeAttributes = (u: number, v: number) => {
+    const pos = find(u, v);
+    return pos < 0 ? undefined : unpackAttributes(csr.weights![pos], csr.slots![pos]);
+  };
+
+  const slotNeighbors = (u: number, slot: number) => {
+    const arr = [];
+    for (let i = csr.offsets[u]; i < csr.offsets[u + 1]; i++) {
+      if ((csr.slots![i] & 0xFF) === slot) arr.push(csr.targets[i]);
+    }
+    return arr;
+  };
+
+  const addEdge = (u: number, v: number, attrs?: EdgeAttributes): boolean => {
+    if (u === v && !mode.selfLoops) return false;
+    if (!mode.multigraph && has(u, v)) return false;
+    sparseInsert(csr, u, v, attrs);
+    sparseInsert(csc, v, u);
+    return true;
+  };
+
+  const removeEdge = (u: number, v: number): boolean => {
+    if (!sparseRemove(csr, u, v)) return false;
+    sparseRemove(csc, v, u);
+    return true;
+  };
+
+  const addNode = (): number => {
+    sparseAddRow(csr);
+    sparseAddRow(csc);
+    return n++;
+  };
+
+  const removeNode = (u: number) => {
+    for (const v of Array.from(outNeighbors(u))) if (v !== u) sparseRemove(csc, v, u);
+    for (const w of Array.from(inNeighbors(u))) if (w !== u) sparseRemove(csr, w, u);
+    sparseRemoveRange(csr, u, csr.offsets[u], csr.offsets[u + 1] - csr.offsets[u]);
+    sparseRemoveRange(csc, u, csc.offsets[u], csc.offsets[u + 1] - csc.offsets[u]);
+  };
+
+  return {
+    get n() { return n; },
+    has, outNeighbors, inNeighbors,
+    forEachOut, iterateOut, fillOut,
+    weight, edgeAttributes, slotNeighbors,
+    addEdge, removeEdge, addNode, removeNode,
+  };
+}
+
+// -------------------- Sparse Matrix Variants --------------------
+// O(1)-style lookups without the n*n allocation, for graphs past a few thousand nodes.
+
+// Key of a u -> v pair (or a tile's coordinates) in the hashed layouts. A fixed stride
+// rather than u * n + v keeps keys valid when addNode() grows n; ids stay below 2^26
+// (67M nodes) so keys fit exactly in a double.
+const KEY_STRIDE = 2 ** 26;
+const edgeKey = (u: number, v: number) => u * KEY_STRIDE + v;
+
+function popcount(x: number): number {
+  x -= (x >>> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  return Math.imul((x + (x >>> 4)) & 0x0F0F0F0F, 0x01010101) >>> 24;
+}
+
+// Roaring-style bitmap of one matrix row: values are split by their high 16 bits into
+// containers, each a sorted Uint16Array while it holds at most ROARING_ARRAY_MAX values and a
+// 65536-bit bitmap beyond that. Containers may carry a payload per value (weight + packed
+// slots): aligned with the array, or a full 65536-entry plane next to a bitmap.
+const ROARING_ARRAY_MAX = 4096;
+
+interface RoaringContainer {
+  key: number;                   // high 16 bits shared by the values
+  size: number;
+  values: Uint16Array | null;    // array container; capacity may exceed size
+  bits: Uint32Array | null;      // bitmap container, 2048 words
+  weights: Float32Array | null;  // payload, null for rows without one
+  slots: Uint32Array | null;
+}
+
+type RoaringRow = RoaringContainer[];  // sorted by key
+
+// Index of the container for key, or -(insertion point) - 1
+function findContainer(row: RoaringRow, key: number): number {
+  let lo = 0, hi = row.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >>> 1;
+    const k = row[mid].key;
+    if (k < key) lo = mid + 1;
+    else if (k > key) hi = mid - 1;
+    else return mid;
+  }
+  return -lo - 1;
+}
+
+// Position of low in an array container, or -(insertion point) - 1
+function findValue(c: RoaringContainer, low: number): number {
+  const values = c.values!;
+  let lo = 0, hi = c.size - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >>> 1;
+    if (values[mid] < low) lo = mid + 1;
+    else if (values[mid] > low) hi = mid - 1;
+    else return mid;
+  }
+  return -lo - 1;
+}
+
+// Container index * 65536 + payload index of x, or -1 when x is absent (no allocation on lookups)
+function roaringLocate(row: RoaringRow, x: number): number {
+  const ci = findContainer(row, x >>> 16);
+  if (ci < 0) return -1;
+  const c = row[ci], low = x & 0xFFFF;
+  const i = c.bits ? ((c.bits[low >>> 5] >>> (low & 31)) & 1 ? low : -1) : findValue(c, low);
+  return i < 0 ? -1 : ci * 65536 + i;
+}
+
+function toBitmap(c: RoaringContainer): void {
+  const values = c.values!;
+  const bits = new Uint32Array(2048);
+  for (let i = 0; i < c.size; i++) bits[values[i] >>> 5] |= 1 << (values[i] & 31);
+  if (c.weights) {
+    const weights = new Float32Array(65536), slots = new Uint32Array(65536);
+    for (let i = 0; i < c.size; i++) {
+      weights[values[i]] = c.weights[i];
+      slots[values[i]] = c.slots![i];
+    }
+    c.weights = weights;
+    c.slots = slots;
+  }
+  c.bits = bits;
+  c.values = null;
+}
+
+function toArray(c: RoaringContainer): void {
+  const bits = c.bits!;
+  const values = new Uint16Array(c.size);
+  const weights = c.weights && new Float32Array(c.size), slots = c.slots && new Uint32Array(c.size);
+  let i = 0;
+  for (let w = 0; w < bits.length; w++) {
+    let word = bits[w];
+    while (word !== 0) {
+      const low = (w << 5) + 31 - Math.clz32(word & -word);
+      word &= word - 1;
+      values[i] = low;
+      if (weights) {
+        weights[i] = c.weights![low];
+        slots![i] = c.slots![low];
+      }
+      i++;
+    }
+  }
+  c.values = values;
+  c.weights = weights;
+  c.slots = slots;
+  c.bits = null;
+}
+
+// Adds x, storing attrs as its payload when given (rows either always or never pass them).
+// False when x is already present.
+function roaringAdd(row: RoaringRow, x: number, attrs?: EdgeAttributes): boolean {
+  const key = x >>> 16, low = x & 0xFFFF;
+  let ci = findContainer(row, key);
+  if (ci < 0) {
+    ci = -ci - 1;
+    row.splice(ci, 0, {
+      key, size: 0, values: new Uint16Array(4), bits: null,
+      weights: attrs ? new Float32Array(4) : null, slots: attrs ? new Uint32Array(4) : null,
+    });
+  }
+  const c = row[ci];
+  if (!c.bits && c.size === ROARING_ARRAY_MAX && findValue(c, low) < 0) toBitmap(c);
+
+  if (c.bits) {
+    if ((c.bits[low >>> 5] >>> (low & 31)) & 1) return false;
+    c.bits[low >>> 5] |= 1 << (low & 31);
+    if (attrs) {
+      c.weights![low] = attrs.weight;
+      c.slots![low] = packSlots(attrs);
+    }
+    c.size++;
+    return true;
+  }
+
+  let i = findValue(c, low);
+  if (i >= 0) return false;
+  i = -i - 1;
+  if (c.size === c.values!.length) {
+    const capacity = Math.min(ROARING_ARRAY_MAX, c.size * 2);
+    const values = new Uint16Array(capacity);
+    values.set(c.values!);
+    c.values = values;
+    if (c.weights) {
+      const weights = new Float32Array(capacity), slots = new Uint32Array(capacity);
+      weights.set(c.weights);
+      slots.set(c.slots!);
+      c.weights = weights;
+      c.slots = slots;
+    }
+  }
+  c.values!.copyWithin(i + 1, i, c.size);
+  c.values![i] = low;
+  if (c.weights && attrs) {
+    c.weights.copyWithin(i + 1, i, c.size);
+    c.slots!.copyWithin(i + 1, i, c.size);
+    c.weights[i] = attrs.weight;
+    c.slots![i] = packSlots(attrs);
+  }
+  c.size++;
+  return true;
+}
+
+// Removes x; false when it was absent. Bitmaps turn back into arrays at half the
+// threshold so edges added and removed around it do not convert every time.
+function roaringRemove(row: RoaringRow, x: number): boolean {
+  const ci = findContainer(row, x >>> 16);
+  if (ci < 0) return false;
+  const c = row[ci], low = x & 0xFFFF;
+  if (c.bits) {
+    if (!((c.bits[low >>> 5] >>> (low & 31)) & 1)) return false;
+    c.bits[low >>> 5] &= ~(1 << (low & 31));
+    c.size--;
+    if (c.size <= ROARING_ARRAY_MAX / 2) toArray(c);
+  } else {
+    const i = findValue(c, low);
+    if (i < 0) return false;
+    c.values!.copyWithin(i, i + 1, c.size);
+    if (c.weights) {
+      c.weights.copyWithin(i, i + 1, c.size);
+      c.slots!.copyWithin(i, i + 1, c.size);
+    }
+    c.size--;
+  }
+  if (c.size === 0) row.splice(ci, 1);
+  return true;
+}
+
+// Calls visit(value, payload index) for every value in ascending order
+function roaringForEach(row: RoaringRow, visit: (x: number, c: RoaringContainer, i: number) => void): void {
+  for (const c of row) {
+    const high = c.key * 65536;
+    if (c.values) {
+      for (let i = 0; i < c.size; i++) visit(high + c.values[i], c, i);
+      continue;
+    }
+    const bits = c.bits!;
+    for (let w = 0; w < bits.length; w++) {
+      let word = bits[w];
+      while (word !== 0) {
+        const low = (w << 5) + 31 - Math.clz32(word & -word);
+        word &= word - 1;
+        visit(high + low, c, low);
+      }
+    }
+  }
+}
+
+// The same walk as a generator
+function* roaringValues(row: RoaringRow): Generator<number> {
+  for (const c of row) {
+    const high = c.key * 65536;
+    if (c.values) {
+      for (let i = 0; i < c.size; i++) yield high + c.values[i];
+      continue;
+    }
+    const bits = c.bits!;
+    for (let w = 0; w < bits.length; w++) {
+      let word = bits[w];
+      while (word !== 0) {
+        const low = (w << 5) + 31 - Math.clz32(word & -word);
+        word &= word - 1;
+        yield high + low;
+      }
+    }
+  }
+}
+
+// RBM: Roaring-style compressed bitmap per row, plus one per column for inNeighbors (like
+// CSR's CSC transpose). Lookups binary-search at most 4096 16-bit values, or test a bit.
+// Row containers carry the edge payloads; parallel edges in multigraph mode are counted in
+// a sparse Map and share their cell's attributes (the latest write wins), as in AM.
+export function makeRoaring(n: number, edges: Edge[], mode: GraphMode = DEFAULT_GRAPH_MODE): GraphStructure {
+  const out: RoaringRow[] = Array.from({ length: n }, () => []);
+  const inn: RoaringRow[] = Array.from({ length: n }, () => []);
+  const parallel = new Map<number, number>();
+
+  // Copies of u -> v beyond the first
+  const extra = (u: number, v: number) => (parallel.size ? parallel.get(edgeKey(u, v)) ?? 0 : 0);
+
+  const addEdge = (u: number, v: number, attrs: EdgeAttributes = DEFAULT_EDGE_ATTRIBUTES): boolean => {
+    if (u === v && !mode.selfLoops) return false;
+    if (roaringAdd(out[u], v, attrs)) {
+      roaringAdd(inn[v], u);
+      return true;
+    }
+    if (!mode.multigraph) return false;
+    parallel.set(edgeKey(u, v), extra(u, v) + 1);
+    const at = roaringLocate(out[u], v);
+    const c = out[u][(at / 65536) | 0];
+    c.weights![at & 0xFFFF] = attrs.weight;
+    c.slots![at & 0xFFFF] = packSlots(attrs);
+    return true;
+  };
+
+  for (const [u, v, attrs] of edges) addEdge(u, v, attrs);
+
+  const has = (u: number, v: number) => roaringLocate(out[u], v) >= 0;
+
+  const outNeighbors = (u: number) => {
+    const arr: number[] = [];
+    roaringForEach(out[u], v => {
+      arr.push(v);
+      for (let k = extra(u, v); k > 0; k--) arr.push(v);
+    });
+    return arr;
+  };
+
+  const inNeighbors = (v: number) => {
+    const arr: number[] = [];
+    roaringForEach(inn[v], u => {
+      arr.push(u);
+      for (let k = extra(u, v); k > 0; k--) arr.push(u);
+    });
+    return arr;
+  };
+
+  // Without parallel edges the caller's callback goes straight to the container walk
+  const forEachOut = (u: number, visit: (v: number) => void) => {
+    if (!parallel.size) roaringForEach(out[u], visit);
+    else roaringForEach(out[u], v => {
+      for (let k = extra(u, v); k >= 0; k--) visit(v);
+    });
+  };
+
+  function* iterateOut(u: number) {
+    for (const v of roaringValues(out[u])) for (let k = extra(u, v); k >= 0; k--) yield v;
+  }
+
+  const fillOut = (u: number, buffer: Int32Array) => {
+    let count = 0;
+    for (const c of out[u]) {
+      const high = c.key * 65536;
+      if (c.values) {
+        for (let i = 0; i < c.size; i++) {
+          const v = high + c.values[i];
+          for (let k = extra(u, v); k >= 0; k--) {
+            if (count < buffer.length) buffer[count] = v;
+            count++;
+          }
+        }
+        continue;
+      }
+      const bits = c.bits!;
+      for (let w = 0; w < bits.length; w++) {
+        let word = bits[w];
+        while (word !== 0) {
+          const v = high + (w << 5) + 31 - Math.clz32(word & -word);
+          word &= word - 1;
+          for (let k = extra(u, v); k >= 0; k--) {
+            if (count < buffer.length) buffer[count] = v;
+            count++;
+          }
+        }
+      }
+    }
+    return count;
+  };
+
+  const weight = (u: number, v: number) => {
+    const at = roaringLocate(out[u], v);
+    return at < 0 ? undefined : out[u][(at / 65536) | 0].weights![at & 0xFFFF];
+  };
+
+  const edgeAttributes = (u: number, v: number) => {
+    const at = roaringLocate(out[u], v);
+    if (at < 0) return undefined;
+    const c = out[u][(at / 65536) | 0];
+    return unpackAttributes(c.weights![at & 0xFFFF], c.slots![at & 0xFFFF]);
+  };
+
+  const slotNeighbors = (u: number, slot: number) => {
+    const arr: number[] = [];
+    roaringForEach(out[u], (v, c, i) => {
+      if ((c.slots![i] & 0xFF) === slot) for (let k = extra(u, v); k >= 0; k--) arr.push(v);
+    });
+    return arr;
+  };
+
+  const removeEdge = (u: number, v: number): boolean => {
+    if (!has(u, v)) return false;
+    const copies = extra(u, v);
+    if (copies > 1) parallel.set(edgeKey(u, v), copies - 1);
+    else if (copies === 1) parallel.delete(edgeKey(u, v));
+    else {
+      roaringRemove(out[u], v);
+      roaringRemove(inn[v], u);
+    }
+    return true;
+  };
+
+  const addNode = (): number => {
+    out.push([]);
+    inn.push([]);
+    return n++;
+  };
+
+  const removeNode = (u: number) => {
+    roaringForEach(out[u], v => {
+      if (v !== u) roaringRemove(inn[v], u);
+      if (parallel.size) parallel.delete(edgeKey(u, v));
+    });
+    roaringForEach(inn[u], w => {
+      if (w !== u) roaringRemove(out[w], u);
+      if (parallel.size) parallel.delete(edgeKey(w, u));
+    });
+    out[u] = [];
+    inn[u] = [];
+  };
+
+  return {
+    get n() { return n; },
+    has, outNeighbors, inNeighbors,
+    forEachOut, iterateOut, fillOut,
+    weight, edgeAttributes, slotNeighbors,
+    addEdge, removeEdge, addNode, removeNode,
+  };
+}
+
+// TILE: the n*n bit matrix cut into 32x32 tiles, of which only non-empty ones are allocated
+// (32 words each, pooled in one Uint32Array). A Map keyed by tile coordinates finds a cell's
+// tile in O(1), and every tile row and column lists its tiles for neighbor scans. Payloads
+// are kept per tile in rank order (the popcount of the tile's bits before the cell).
+// Parallel edges are counted and share attributes as in AM.
+export function makeTiled(n: number, edges: Edge[], mode: GraphMode = DEFAULT_GRAPH_MODE): GraphStructure {
+  let pool = new Uint32Array(32 * 64);
+  let tileCount = 0;
+  const freeTiles: number[] = [];
+  const tileIndex = new Map<number, number>();     // edgeKey(tile row, tile column) -> tile
+  const tileRow: number[] = [], tileCol: number[] = [];
+  const tileWeights: number[][] = [], tileSlots: number[][] = [];
+  const rowTiles = Array.from({ length: Math.ceil(n / 32) }, () => [] as number[]);
+  const colTiles = Array.from({ length: Math.ceil(n / 32) }, () => [] as number[]);
+  const parallel = new Map<number, number>();
+
+  const extra = (u: number, v: number) => (parallel.size ? parallel.get(edgeKey(u, v)) ?? 0 : 0);
+
+  // Tile holding cell (u, v), or -1 when that tile is empty
+  const tileOf = (u: number, v: number) => tileIndex.get(edgeKey(u >>> 5, v >>> 5)) ?? -1;
+
+  // Payload position of cell (r, c) within tile t
+  const rank = (t: number, r: number, c: number) => {
+    const base = t * 32;
+    let i = popcount(pool[base + r] & ((1 << c) - 1));
+    for (let w = 0; w < r; w++) i += popcount(pool[base + w]);
+    return i;
+  };
+
+  const allocTile = (tr: number, tc: number): number => {
+    const t = freeTiles.length ? freeTiles.pop()! : tileCount++;
+    if ((t + 1) * 32 > pool.length) {
+      const grown = new Uint32Array(pool.length * 2);
+      grown.set(pool);
+      pool = grown;
+    }
+    tileIndex.set(edgeKey(tr, tc), t);
+    tileRow[t] = tr;
+    tileCol[t] = tc;
+    tileWeights[t] = [];
+    tileSlots[t] = [];
+    rowTiles[tr].push(t);
+    colTiles[tc].push(t);
+    return t;
+  };
+
+  const freeTile = (t: number) => {
+    tileIndex.delete(edgeKey(tileRow[t], tileCol[t]));
+    removeOne(rowTiles[tileRow[t]], t);
+    removeOne(colTiles[tileCol[t]], t);
+    tileWeights[t] = [];
+    tileSlots[t] = [];
+    freeTiles.push(t);
+  };
+
+  const has = (u: number, v: number): boolean => {
+    const t = tileOf(u, v);
+    return t >= 0 && ((pool[t * 32 + (u & 31)] >>> (v & 31)) & 1) === 1;
+  };
+
+  const addEdge = (u: number, v: number, attrs: EdgeAttributes = DEFAULT_EDGE_ATTRIBUTES): boolean => {
+    if (u === v && !mode.selfLoops) return false;
+    const r = u & 31, c = v & 31;
+    let t = tileOf(u, v);
+    if (t >= 0 && (pool[t * 32 + r] >>> c) & 1) {
+      if (!mode.multigraph) return false;
+      parallel.set(edgeKey(u, v), extra(u, v) + 1);
+      const i = rank(t, r, c);
+      tileWeights[t][i] = attrs.weight;
+      tileSlots[t][i] = packSlots(attrs);
+      return true;
+    }
+    if (t < 0) t = allocTile(u >>> 5, v >>> 5);
+    const i = rank(t, r, c);
+    pool[t * 32 + r] |= 1 << c;
+    tileWeights[t].splice(i, 0, attrs.weight);
+    tileSlots[t].splice(i, 0, packSlots(attrs));
+    return true;
+  };
+
+  for (const [u, v, attrs] of edges) addEdge(u, v, attrs);
+
+  // Drops the cell's bit and payload; the tile is released once empty
+  const clearCell = (u: number, v: number) => {
+    const t = tileOf(u, v), r = u & 31, c = v & 31;
+    const i = rank(t, r, c);
+    pool[t * 32 + r] &= ~(1 << c);
+    tileWeights[t].splice(i, 1);
+    tileSlots[t].splice(i, 1);
+    if (tileWeights[t].length === 0) freeTile(t);
+  };
+
+  const outNeighbors = (u: number) => {
+    const arr: number[] = [];
+    const r = u & 31;
+    for (const t of rowTiles[u >>> 5]) {
+      const base = tileCol[t] * 32;
+      let word = pool[t * 32 + r];
+      while (word !== 0) {
+        const v = base + 31 - Math.clz32(word & -word);
+        word &= word - 1;
+        arr.push(v);
+        for (let k = extra(u, v); k > 0; k--) arr.push(v);
+      }
+    }
+    return arr;
+  };
+
+  const forEachOut = (u: number, visit: (v: number) => void) => {
+    const r = u & 31;
+    for (const t of rowTiles[u >>> 5]) {
+      const base = tileCol[t] * 32;
+      let word = pool[t * 32 + r];
+      while (word !== 0) {
+        const v = base + 31 - Math.clz32(word & -word);
+        word &= word - 1;
+        for (let k = extra(u, v); k >= 0; k--) visit(v);
+      }
+    }
+  };
+
+  function* iterateOut(u: number) {
+    const r = u & 31;
+    for (const t of rowTiles[u >>> 5]) {
+      const base = tileCol[t] * 32;
+      let word = pool[t * 32 + r];
+      while (word !== 0) {
+        const v = base + 31 - Math.clz32(word & -word);
+        word &= word - 1;
+        for (let k = extra(u, v); k >= 0; k--) yield v;
+      }
+    }
+  }
+
+  const fillOut = (u: number, buffer: Int32Array) => {
+    const r = u & 31;
+    let count = 0;
+    for (const t of rowTiles[u >>> 5]) {
+      const base = tileCol[t] * 32;
+      let word = pool[t * 32 + r];
+      while (word !== 0) {
+        const v = base + 31 - Math.clz32(word & -word);
+        word &= word - 1;
+        for (let k = extra(u, v); k >= 0; k--) {
+          if (count < buffer.length) buffer[count] = v;
+          count++;
+        }
+      }
+    }
+    return count;
+  };
+
+  // A column crosses all 32 rows of each of its tiles
+  const inNeighbors = (v: number) => {
+    const arr: number[] = [];
+    const c = v & 31;
+    for (const t of colTiles[v >>> 5]) {
+      const base = tileRow[t] * 32;
+      for (let r = 0; r < 32; r++) {
+        if ((pool[t * 32 + r] >>> c) & 1) {
+          const u = base + r;
+          arr.push(u);
+          for (let k = extra(u, v); k > 0; k--) arr.push(u);
+        }
+      }
+    }
+    return arr;
+  };
+
+  const weight = (u: number, v: number) => {
+    if (!has(u, v)) return undefined;
+    const t = tileOf(u, v);
+    return tileWeights[t][rank(t, u & 31, v & 31)];
+  };
+
+  const edgeAttributes = (u: number, v: number) => {
+    if (!has(u, v)) return undefined;
+    const t = tileOf(u, v), i = rank(t, u & 31, v & 31);
+    return unpackAttributes(tileWeights[t][i], tileSlots[t][i]);
+  };
+
+  const slotNeighbors = (u: number, slot: number) => {
+    const arr: number[] = [];
+    const r = u & 31;
+    for (const t of rowTiles[u >>> 5]) {
+      const base = tileCol[t] * 32;
+      let i = rank(t, r, 0);
+      let word = pool[t * 32 + r];
+      while (word !== 0) {
+        const v = base + 31 - Math.clz32(word & -word);
+        word &= word - 1;
+        if ((tileSlots[t][i++] & 0xFF) === slot) for (let k = extra(u, v); k >= 0; k--) arr.push(v);
+      }
+    }
+    return arr;
+  };
+
+  const removeEdge = (u: number, v: number): boolean => {
+    if (!has(u, v)) return false;
+    const copies = extra(u, v);
+    if (copies > 1) parallel.set(edgeKey(u, v), copies - 1);
+    else if (copies === 1) parallel.delete(edgeKey(u, v));
+    else clearCell(u, v);
+    return true;
+  };
+
+  const addNode = (): number => {
+    if (n % 32 === 0) {
+      rowTiles.push([]);
+      colTiles.push([]);
+    }
+    return n++;
+  };
+
+  const removeNode = (u: number) => {
+    const targets = new Set(outNeighbors(u)), sources = new Set(inNeighbors(u));
+    for (const v of targets) {
+      clearCell(u, v);
+      if (parallel.size) parallel.delete(edgeKey(u, v));
+    }
+    for (const w of sources) {
+      if (w === u) continue;
+      clearCell(w, u);
+      if (parallel.size) parallel.delete(edgeKey(w, u));
+    }
+  };
+
+  return {
+    get n() { return n; },
+    has, outNeighbors, inNeighbors,
+    forEachOut, iterateOut, fillOut,
+    weight, edgeAttributes, slotNeighbors,
+    addEdge, removeEdge, addNode, removeNode,
+  };
+}
+
+// HASH: one global Map from edge key to the edge's attribute record answers has() and
+// weight lookups, in place of AL's Map per node; out and in lists serve traversal.
+// Parallel edges repeat in the lists and share one record (the latest write wins).
+export function makeEdgeHash(n: number, edges: Edge[], mode: GraphMode = DEFAULT_GRAPH_MODE): GraphStructure {
+  const out = Array.from({ length: n }, () => [] as number[]);
+  const inn = Array.from({ length: n }, () => [] as number[]);
+  const records = new Map<number, EdgeAttributes>();
+
+  const addEdge = (u: number, v: number, attrs: EdgeAttributes = DEFAULT_EDGE_ATTRIBUTES): boolean => {
+    if (u === v && !mode.selfLoops) return false;
+    const key = edgeKey(u, v);
+    if (records.has(key) && !mode.multigraph) return false;
+    records.set(key, attrs);
+    out[u].push(v);
+    inn[v].push(u);
+    return true;
+  };
+
+  for (const [u, v, attrs] of edges) addEdge(u, v, attrs);
+
+  const has = (u: number, v: number) => records.has(edgeKey(u, v));
+  const outNeighbors = (u: number) => out[u];
+  const inNeighbors = (v: number) => inn[v];
+  const weight = (u: number, v: number) => records.get(edgeKey(u, v))?.weight;
+  const edgeAttributes = (u: number, v: number) => records.get(edgeKey(u, v));
+
+  const slotNeighbors = (u: number, slot: number) => {
+    const arr = [];
+    for (const v of out[u]) if (records.get(edgeKey(u, v))!.outSlot === slot) arr.push(v);
+    return arr;
+  };
+
+  const removeEdge = (u: number, v: number): boolean => {
+    if (!removeOne(out[u], v)) return false;
+    removeOne(inn[v], u);
+    if (!out[u].includes(v)) records.delete(edgeKey(u, v));
+    return true;
+  };
+
+  const addNode = (): number => {
+    out.push([]);
+    inn.push([]);
+    return n++;
+  };
+
+  const removeNode = (u: number) => {
+    for (const w of out[u]) {
+      removeAll(inn[w], u);
+      records.delete(edgeKey(u, w));
+    }
+    for (const w of inn[u]) {
+      removeAll(out[w], u);
+      records.delete(edgeKey(w, u));
+    }
+    out[u] = [];
+    inn[u] = [];
+  };
+
+  return {
+    get n() { return n; },
+    has, outNeighbors, inNeighbors,
+    ...listNeighborApis(out),
+    weight, edgeAttributes, slotNeighbors,
+    addEdge, removeEdge, addNode, removeNode,
+  };
+}
+
+// -------------------- Persistent Structures --------------------
+// Persistent vector: a 32-way trie of arrays that are never written once shared. set() and
+// push() copy the root-to-leaf path, O(log32 n), and share every other trie node.
+type TrieNode<T> = (T | TrieNode<T>)[];  // branches hold child nodes, leaves hold values
+
+interface PersistentVector<T> {
+  size: number;
+  shift: number;     // index bits above the leaf level: 0 while everything fits one leaf
+  root: TrieNode<T>;
+}
+
+function pvecFromArray<T>(items: T[]): PersistentVector<T> {
+  let level: TrieNode<T>[] = [];
+  for (let i = 0; i < items.length; i += 32) level.push(items.slice(i, i + 32));
+  let shift = 0;
+  while (level.length > 1) {
+    const parents: TrieNode<T>[] = [];
+    for (let i = 0; i < level.length; i += 32) parents.push(level.slice(i, i + 32));
+    level = parents;
+    shift += 5;
+  }
+  return { size: items.length, shift, root: level[0] ?? [] };
+}
+
+function pvecGet<T>(vec: PersistentVector<T>, i: number): T {
+  let node = vec.root;
+  for (let level = vec.shift; level > 0; level -= 5) node = node[(i >>> level) & 31] as TrieNode<T>;
+  return node[i & 31] as T;
+}
+
+// Copy of the path to index i with `value` stored there; missing trie nodes are created
+function pathWith<T>(node: TrieNode<T> | undefined, level: number, i: number, value: T): TrieNode<T> {
+  const copy = node ? node.slice() : [];
+  const j = (i >>> level) & 31;
+  copy[j] = level === 0 ? value : pathWith(copy[j] as TrieNode<T> | undefined, level - 5, i, value);
+  return copy;
+}
+
+function pvecSet<T>(vec: PersistentVector<T>, i: number, value: T): PersistentVector<T> {
+  return { size: vec.size, shift: vec.shift, root: pathWith(vec.root, vec.shift, i, value) };
+}
+
+function pvecPush<T>(vec: PersistentVector<T>, value: T): PersistentVector<T> {
+  // A full trie gets a new root one level up
+  const full = vec.size === 1 << (vec.shift + 5);
+  const shift = full ? vec.shift + 5 : vec.shift;
+  const root: TrieNode<T> = full ? [vec.root] : vec.root;
+  return { size: vec.size + 1, shift, root: pathWith(root, shift, vec.size, value) };
+}
+
+// One node's edges in a persistent graph version, replaced (never modified) when they change
+interface PersistentNode {
+  out: Int32Array;        // sorted targets; parallel edges repeat
+  weights: Float32Array;  // aligned with out
+  slots: Uint32Array;     // packSlots(), aligned with out
+  inn: Int32Array;        // sources in insertion order
+}
+
+const EMPTY_NODE: PersistentNode = Object.freeze({
+  out: new Int32Array(0), weights: new Float32Array(0), slots: new Uint32Array(0), inn: new Int32Array(0),
+});
+
+// First position in a sorted Int32Array whose value is >= x
+function searchSorted(arr: Int32Array, x: number): number {
+  let lo = 0, hi = arr.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (arr[mid] < x) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// The node without its `count` out entries at pos
+function withoutOut(node: PersistentNode, pos: number, count: number): PersistentNode {
+  return {
+    out: spliceOut(node.out, pos, count, len => new Int32Array(len)),
+    weights: spliceOut(node.weights, pos, count, len => new Float32Array(len)),
+    slots: spliceOut(node.slots, pos, count, len => new Uint32Array(len)),
+    inn: node.inn,
+  };
+}
+
+// The node without all out entries to v
+function withoutTarget(node: PersistentNode, v: number): PersistentNode {
+  const start = searchSorted(node.out, v);
+  let end = start;
+  while (end < node.out.length && node.out[end] === v) end++;
+  return end === start ? node : withoutOut(node, start, end - start);
+}
+
+// The node with one in entry from u (the first) or all of them removed
+function withoutSource(node: PersistentNode, u: number, all: boolean): PersistentNode {
+  const inn = node.inn;
+  const kept = new Int32Array(inn.length);
+  let count = 0, dropped = false;
+  for (let i = 0; i < inn.length; i++) {
+    if (inn[i] === u && (all || !dropped)) dropped = true;
+    else kept[count++] = inn[i];
+  }
+  return dropped ? { ...node, inn: kept.slice(0, count) } : node;
+}
+
+class PersistentVersion implements PersistentGraph {
+  readonly n: number;
+  private readonly nodes: PersistentVector<PersistentNode>;
+  private readonly mode: GraphMode;
+
+  constructor(n: number, nodes: PersistentVector<PersistentNode>, mode: GraphMode) {
+    this.n = n;
+    this.nodes = nodes;
+    this.mode = mode;
+  }
+
+  private node(u: number): PersistentNode {
+    return pvecGet(this.nodes, u);
+  }
+
+  // Position of the first u -> v entry, or -1
+  private find(u: number, v: number): number {
+    const out = this.node(u).out;
+    const pos = searchSorted(out, v);
+    return pos < out.length && out[pos] === v ? pos : -1;
+  }
+
+  has(u: number, v: number): boolean {
+    return this.find(u, v) >= 0;
+  }
+
+  outNeighbors(u: number) {
+    return this.node(u).out;
+  }
+
+  inNeighbors(v: number) {
+    return this.node(v).inn;
+  }
+
+  forEachOut(u: number, visit: (v: number) => void) {
+    const out = this.node(u).out;
+    for (let i = 0; i < out.length; i++) visit(out[i]);
+  }
+
+  *iterateOut(u: number) {
+    const out = this.node(u).out;
+    for (let i = 0; i < out.length; i++) yield out[i];
+  }
+
+  fillOut(u: number, buffer: Int32Array) {
+    const out = this.node(u).out;
+    if (out.length <= buffer.length) buffer.set(out);
+    return out.length;
+  }
+
+  weight(u: number, v: number) {
+    const pos = this.find(u, v);
+    return pos < 0 ? undefined : this.node(u).weights[pos];
+  }
+
+  edgeAttributes(u: number, v: number) {
+    const pos = this.find(u, v);
+    if (pos < 0) return undefined;
+    const node = this.node(u);
+    return unpackAttributes(node.weights[pos], node.slots[pos]);
+  }
+
+  slotNeighbors(u: number, slot: number) {
+    const arr: number[] = [];
+    const { out, slots } = this.node(u);
+    for (let i = 0; i < out.length; i++) if ((slots[i] & 0xFF) === slot) arr.push(out[i]);
+    return arr;
+  }
+
+  // Copies u's out arrays and v's in list (O(degree)) plus two trie paths
+  withEdge(u: number, v: number, attrs: EdgeAttributes = DEFAULT_EDGE_ATTRIBUTES): PersistentGraph {
+    if (u === v && !this.mode.selfLoops) return this;
+    if (!this.mode.multigraph && this.has(u, v)) return this;
+    const from = this.node(u);
+    // After any parallel copies, so find() keeps returning the oldest
+    let pos = searchSorted(from.out, v);
+    while (pos < from.out.length && from.out[pos] === v) pos++;
+    const source: PersistentNode = {
+      out: spliceIn(from.out, pos, v, len => new Int32Array(len)),
+      weights: spliceIn(from.weights, pos, attrs.weight, len => new Float32Array(len)),
+      slots: spliceIn(from.slots, pos, packSlots(attrs), len => new Uint32Array(len)),
+      inn: from.inn,
+    };
+    const nodes = pvecSet(this.nodes, u, source);
+    const to = u === v ? source : this.node(v);
+    const target = { ...to, inn: spliceIn(to.inn, to.inn.length, u, len => new Int32Array(len)) };
+    return new PersistentVersion(this.n, pvecSet(nodes, v, target), this.mode);
+  }
+
+  withoutEdge(u: number, v: number): PersistentGraph {
+    const pos = this.find(u, v);
+    if (pos < 0) return this;
+    const source = withoutOut(this.node(u), pos, 1);
+    const nodes = pvecSet(this.nodes, u, source);
+    const target = withoutSource(u === v ? source : this.node(v), u, false);
+    return new PersistentVersion(this.n, pvecSet(nodes, v, target), this.mode);
+  }
+
+  withNode(): PersistentGraph {
+    return new PersistentVersion(this.n + 1, pvecPush(this.nodes, EMPTY_NODE), this.mode);
+  }
+
+  // The id stays, emptied; every neighbor's copy of an edge to or from u goes too
+  withoutNode(u: number): PersistentGraph {
+    const { out, inn } = this.node(u);
+    if (out.length === 0 && inn.length === 0) return this;
+    let nodes = this.nodes;
+    for (let i = 0; i < out.length; i++) {
+      const v = out[i];
+      if (v !== u && (i === 0 || out[i - 1] !== v)) nodes = pvecSet(nodes, v, withoutSource(pvecGet(nodes, v), u, true));
+    }
+    for (const w of new Set(inn)) {
+      if (w !== u) nodes = pvecSet(nodes, w, withoutTarget(pvecGet(nodes, w), u));
+    }
+    return new PersistentVersion(this.n, pvecSet(nodes, u, EMPTY_NODE), this.mode);
+  }
+}
+
+// A persistent graph holding `edges`, built in one pass rather than edge by edge
+export function buildPersistentGraph(n: number, edges: Edge[], mode: GraphMode = DEFAULT_GRAPH_MODE): PersistentGraph {
+  edges = applyGraphMode(edges, mode);
+  const outgoing = Array.from({ length: n }, () => [] as Edge[]);
+  const incoming = Array.from({ length: n }, () => [] as number[]);
+  for (const edge of edges) {
+    outgoing[edge[0]].push(edge);
+    incoming[edge[1]].push(edge[0]);
+  }
+  const records = outgoing.map((list, u): PersistentNode => {
+    if (list.length === 0 && incoming[u].length === 0) return EMPTY_NODE;
+    // Stable sort keeps parallel copies in input order, as withEdge() would
+    list.sort((a, b) => a[1] - b[1]);
+    return {
+      out: Int32Array.from(list, e => e[1]),
+      weights: Float32Array.from(list, e => (e[2] ?? DEFAULT_EDGE_ATTRIBUTES).weight),
+      slots: Uint32Array.from(list, e => packSlots(e[2] ?? DEFAULT_EDGE_ATTRIBUTES)),
+      inn: Int32Array.from(incoming[u]),
+    };
+  });
+  return new PersistentVersion(n, pvecFromArray(records), mode);
+}
+
+// A mutable GraphStructure over the versions: each edit swaps in the next one. A class, so a
+// snapshot is one small object rather than a fresh set of closures.
+class PersistentStructure implements GraphStructure {
+  private current: PersistentGraph;
+
+  constructor(current: PersistentGraph) {
+    this.current = current;
+  }
+
+  get n() { return this.current.n; }
+  has(u: number, v: number) { return this.current.has(u, v); }
+  outNeighbors(u: number) { return this.current.outNeighbors(u); }
+  inNeighbors(v: number) { return this.current.inNeighbors(v); }
+  forEachOut(u: number, visit: (v: number) => void) { this.current.forEachOut(u, visit); }
+  iterateOut(u: number) { return this.current.iterateOut(u); }
+  fillOut(u: number, buffer: Int32Array) { return this.current.fillOut(u, buffer); }
+  weight(u: number, v: number) { return this.current.weight(u, v); }
+  edgeAttributes(u: number, v: number) { return this.current.edgeAttributes(u, v); }
+  slotNeighbors(u: number, slot: number) { return this.current.slotNeighbors(u, slot); }
+
+  private advance(next: PersistentGraph): boolean {
+    if (next === this.current) return false;
+    this.current = next;
+    return true;
+  }
+
+  addEdge(u: number, v: number, attrs?: EdgeAttributes) { return this.advance(this.current.withEdge(u, v, attrs)); }
+  removeEdge(u: number, v: number) { return this.advance(this.current.withoutEdge(u, v)); }
+
+  addNode() {
+    this.current = this.current.withNode();
+    return this.current.n - 1;
+  }
+
+  removeNode(u: number) {
+    this.current = this.current.withoutNode(u);
+  }
+
+  // Versions are immutable, so a snapshot just shares the current one: O(1)
+  clone() {
+    return new PersistentStructure(this.current);
+  }
+}
+
+// PVEC: persistent graph with structural sharing, for undo/redo and cheap copies. A persistent
+// vector maps node ids to immutable records (sorted targets with aligned weights and packed
+// slots, plus sources); an edit copies the touched records and their trie paths only.
+// Lookups binary-search the sorted targets, like CSR.
+export function makePersistent(n: number, edges: Edge[], mode: GraphMode = DEFAULT_GRAPH_MODE): GraphStructure {
+  return new PersistentStructure(buildPersistentGraph(n, edges, mode));
+}
+
+// -------------------- Memory Estimates --------------------
+const bitsetBytes = (n: number) => Math.ceil((n * n) / 32) * 4;
+// Out, in and attribute-record arrays (8 bytes per reference) + Maps (~24 bytes per entry).
+// Attribute records are shared with the input edge list, so they are not counted.
+const listBytes = (edgeCount: number) => edgeCount * 8 * 3 + edgeCount * 24;
+// Map entries keyed by doubles above 2^31 also hold a boxed key (~16 bytes)
+const hashEntryBytes = 40;
+// AM's sparse attributes: a Map entry plus a four-field record (~48 bytes) per attributed edge
+const attributeMapBytes = (edgeCount: number) => edgeCount * (hashEntryBytes + 48);
+
+// Leaves and branches come to about n / 31 trie nodes, each an array header plus 32 slots
+const trieBytes = (n: number) => Math.ceil(n / 31) * (16 + 32 * 8);
+
+// -------------------- Built-in Registrations --------------------
+registerStructure({
+  name: 'AM',
+  label: 'Adjacency Matrix',
+  color: '#3B82F6', // Blue
+  build: makeAM,
+  estimateBytes: (n, edgeCount) => bitsetBytes(n) + attributeMapBytes(edgeCount),
+});
+
+registerStructure({
+  name: 'AMT',
+  label: 'Adjacency Matrix + Transpose',
+  color: '#14B8A6', // Teal
+  build: makeAMT,
+  // Row- and column-major bitsets padded to whole words, plus AM's attribute Map
+  estimateBytes: (n, edgeCount) => 2 * bitsetBytes(Math.ceil(n / 32) * 32) + attributeMapBytes(edgeCount),
+});
+
+registerStructure({
+  name: 'AL',
+  label: 'Adjacency List',
+  color: '#10B981', // Green
+  build: makeAL,
+  estimateBytes: (_n, edgeCount) => listBytes(edgeCount),
+});
+
+registerStructure({
+  name: 'AM+AL',
+  label: 'Combined',
+  color: '#8B5CF6', // Purple
+  build: makeAM_AL,
+  estimateBytes: (n, edgeCount) => bitsetBytes(n) + listBytes(edgeCount),
+});
+
+registerStructure({
+  name: 'OOP',
+  label: 'Object-Oriented',
+  color: '#F59E0B', // Orange
+  build: makeOOP,
+  // ~200 bytes per node object with slot arrays, ~130 bytes per link object with its attributes
+  estimateBytes: (n, edgeCount) => n * 200 + edgeCount * 130,
+});
+
+registerStructure({
+  name: 'SOA',
+  label: 'Struct-of-Arrays OOP',
+  color: '#6366F1', // Indigo
+  build: makeSoA,
+  // Two list heads per node; per link, eight 4-byte fields (endpoints, weight, packed slots
+  // and the four list pointers). Both get up to 2x slack as they grow.
+  estimateBytes: (n, edgeCount) => Math.max(16, n) * 8 + Math.max(16, edgeCount) * 32,
+});
+
+registerStructure({
+  name: 'CSR',
+  label: 'Compressed Sparse Row',
+  color: '#EC4899', // Pink
+  build: makeCSR,
+  // Int32 offsets + targets, once for CSR and once for the CSC transpose, plus 8 attribute bytes per edge
+  estimateBytes: (n, edgeCount) => 2 * ((n + 1) * 4 + edgeCount * 4) + edgeCount * 8,
+});
+
+registerStructure({
+  name: 'RBM',
+  label: 'Roaring Bitmap Matrix',
+  color: '#06B6D4', // Cyan
+  build: makeRoaring,
+  // Two empty row arrays per node, a container (~120 bytes) per non-empty row and column,
+  // and 2-byte values plus 8 payload bytes per edge with up to 2x array slack
+  estimateBytes: (n, edgeCount) => n * 2 * 16 + Math.min(n, edgeCount) * 2 * 120 + edgeCount * (2 + 8 + 2) * 1.5,
+});
+
+registerStructure({
+  name: 'TILE',
+  label: 'Tiled Bitmap',
+  color: '#EF4444', // Red
+  build: makeTiled,
+  // Per allocated tile: 128 bitmap bytes, the Map entry, two payload arrays and list slots
+  // (~250 bytes); sparse graphs allocate about one tile per edge. Payloads add 16 bytes per edge.
+  estimateBytes: (n, edgeCount) => Math.min(edgeCount, Math.ceil(n / 32) ** 2) * 250 + edgeCount * 16,
+});
+
+registerStructure({
+  name: 'HASH',
+  label: 'Global Edge Hash',
+  color: '#84CC16', // Lime
+  build: makeEdgeHash,
+  // Out and in lists (8 bytes per reference) plus one Map entry per distinct edge
+  estimateBytes: (n, edgeCount) => n * 2 * 16 + edgeCount * (8 * 2 + hashEntryBytes),
+});
+
+registerStructure({
+  name: 'PVEC',
+  label: 'Persistent Graph',
+  color: '#EAB308', // Yellow
+  build: makePersistent,
+  // A record with four typed arrays (~300 bytes) per node that has edges, 16 bytes per edge
+  // (target, weight, slots and the in entry) and the trie over the records
+  estimateBytes: (n, edgeCount) => Math.min(n, edgeCount * 2) * 300 + edgeCount * 16 + trieBytes(n),
+});
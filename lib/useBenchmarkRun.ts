@@ -0,0 +1,120 @@
+// Run orchestration for the web UI: the single owner of benchmark execution, progress and errors.
+// idle -> running -> done | cancelled | error, and a new run can start from any state but running.
+
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import type { BenchmarkConfig, BenchmarkResult, MemorySource, RuntimeInfo } from './benchmark';
+import type { LoadedGraph } from './importers';
+import type { WorkerRequest, WorkerResponse } from './benchmark.worker';
+import { detectMemorySource, readPageMemory } from './environment.browser';
+
+export type RunStatus = 'idle' | 'running' | 'cancelled' | 'done' | 'error';
+
+export interface RunState {
+  status: RunStatus;
+  progress: number;               // 0-100 while running
+  results: BenchmarkResult[];     // rows received so far, kept on cancel and error
+  memorySource: MemorySource | null;
+  runtime: RuntimeInfo | null;    // what the worker runs on, from its 'start' message
+  // What the results were produced with, for exports: the page's settings may have changed since
+  config: BenchmarkConfig | null;
+  graph: LoadedGraph | null;
+  startedAt: string | null;       // ISO timestamp
+  error: string | null;
+}
+
+type RunAction =
+  | { type: 'start'; config: BenchmarkConfig; graph: LoadedGraph | null; startedAt: string }
+  | { type: 'message'; message: WorkerResponse }
+  | { type: 'cancel' }
+  | { type: 'fail'; error: string };
+
+const initialState: RunState = {
+  status: 'idle', progress: 0, results: [], memorySource: null, runtime: null, config: null, graph: null, startedAt: null, error: null,
+};
+
+function reduce(state: RunState, action: RunAction): RunState {
+  if (action.type === 'start') {
+    return { ...initialState, status: 'running', config: action.config, graph: action.graph, startedAt: action.startedAt };
+  }
+  // Anything arriving after the run settled belongs to a worker that is already gone
+  if (state.status !== 'running') return state;
+
+  switch (action.type) {
+    case 'cancel':
+      return { ...state, status: 'cancelled', progress: 0 };
+    case 'fail':
+      return { ...state, status: 'error', progress: 0, error: action.error };
+    case 'message': {
+      const message = action.message;
+      switch (message.type) {
+        case 'start':
+          return { ...state, memorySource: message.memorySource, runtime: message.runtime };
+        case 'progress':
+          return { ...state, progress: message.progress };
+        case 'result':
+          return { ...state, results: [...state.results, message.result] };
+        case 'memory':
+          return state; // answered by the worker's owner, not state
+        case 'done':
+          return { ...state, status: 'done', progress: 100 };
+        case 'error':
+          return { ...state, status: 'error', progress: 0, error: message.message };
+      }
+    }
+  }
+}
+
+export function useBenchmarkRun() {
+  const [state, dispatch] = useReducer(reduce, initialState);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  const start = useCallback((config: BenchmarkConfig, graph: LoadedGraph | null) => {
+    if (workerRef.current) return; // one run at a time
+
+    dispatch({ type: 'start', config, graph, startedAt: new Date().toISOString() });
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('./benchmark.worker.ts', import.meta.url));
+    } catch (error) {
+      dispatch({ type: 'fail', error: `Could not start benchmark worker: ${(error as Error).message}` });
+      return;
+    }
+    workerRef.current = worker;
+    // The worker cannot read its own heap, so the page measures for it (lib/environment.browser.ts)
+    const memorySource = detectMemorySource();
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      if (e.data.type === 'memory') {
+        const { id } = e.data;
+        readPageMemory(memorySource).then(
+          bytes => worker.postMessage({ type: 'memory', id, bytes } satisfies WorkerRequest),
+          (error: Error) => worker.postMessage({ type: 'memory', id, error: error.message } satisfies WorkerRequest),
+        );
+        return;
+      }
+      dispatch({ type: 'message', message: e.data });
+      if (e.data.type === 'done' || e.data.type === 'error') stopWorker();
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      dispatch({ type: 'fail', error: e.message || 'Benchmark worker crashed' });
+      stopWorker();
+    };
+    worker.postMessage({ type: 'run', config, graph, memorySource } satisfies WorkerRequest);
+  }, [stopWorker]);
+
+  // Terminating the worker stops the run immediately; rows already received are kept
+  const cancel = useCallback(() => {
+    if (!workerRef.current) return;
+    stopWorker();
+    dispatch({ type: 'cancel' });
+  }, [stopWorker]);
+
+  useEffect(() => stopWorker, [stopWorker]);
+
+  return { ...state, isRunning: state.status === 'running', start, cancel };
+}
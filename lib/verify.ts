@@ -0,0 +1,167 @@
+// Cross-structure verification, run before timing: every registered structure must store the
+// same graph. The first structure is the reference and the first disagreement fails the run.
+// Each structure's forEachOut / iterateOut / fillOut are also checked against its outNeighbors.
+// Weights and attributes are compared on every queried pair that holds an edge, except in
+// multigraph mode, where which parallel edge they come from is structure-specific.
+
+import type { Edge, GraphMode, GraphStructure, StructureDefinition } from './structures';
+import type { Random } from './random';
+
+export class VerificationError extends Error {
+  constructor(structure: string, reference: string, detail: string) {
+    super(`${structure} disagrees with ${reference}: ${detail}`);
+    this.name = 'VerificationError';
+  }
+}
+
+export interface VerificationSummary {
+  structures: number;
+  pairs: number;    // has() queries compared per structure
+  hits: number;     // pairs reported present
+  touched: number;  // out- plus in-neighbor entries over all nodes
+}
+
+// Every (u, v) pair is checked up to this many nodes; larger graphs check each input edge
+// plus random pairs
+const EXHAUSTIVE_LIMIT = 1500;
+const RANDOM_PAIRS_PER_NODE = 16;
+
+interface Snapshot {
+  answers: Uint8Array;
+  // Per hit, in query order: weight(), then edgeAttributes() as weight, outSlot, inSlot, type.
+  // Weights go through Math.fround since the typed-array structures store Float32.
+  attributes: number[];
+  out: number[][];   // sorted, so equal arrays mean equal multisets
+  inn: number[][];
+  hits: number;
+  touched: number;
+}
+
+const sorted = (list: ArrayLike<number>) => Array.from(list).sort((a, b) => a - b);
+
+function snapshot(g: GraphStructure, n: number, queries: Int32Array, withAttributes: boolean): Snapshot {
+  const answers = new Uint8Array(queries.length / 2);
+  const attributes: number[] = [];
+  let hits = 0, touched = 0;
+  for (let i = 0; i < answers.length; i++) {
+    const u = queries[2 * i], v = queries[2 * i + 1];
+    if (g.has(u, v)) {
+      answers[i] = 1;
+      hits++;
+      if (withAttributes) {
+        const a = g.edgeAttributes(u, v);
+        attributes.push(Math.fround(g.weight(u, v) ?? NaN));
+        if (a) attributes.push(Math.fround(a.weight), a.outSlot, a.inSlot, a.type);
+        else attributes.push(NaN, NaN, NaN, NaN);
+      }
+    }
+  }
+  const out: number[][] = [], inn: number[][] = [];
+  for (let u = 0; u < n; u++) {
+    out.push(sorted(g.outNeighbors(u)));
+    inn.push(sorted(g.inNeighbors(u)));
+    touched += out[u].length + inn[u].length;
+  }
+  return { answers, attributes, out, inn, hits, touched };
+}
+
+const sameList = (a: number[], b: number[]) => a.length === b.length && a.every((x, i) => x === b[i]);
+const show = (list: number[]) => (list.length > 20 ? `[${list.slice(0, 20).join(', ')}, ... (${list.length})]` : `[${list.join(', ')}]`);
+
+function compare(name: string, ref: string, got: Snapshot, want: Snapshot, n: number, queries: Int32Array): void {
+  for (let i = 0; i < want.answers.length; i++) {
+    if (got.answers[i] !== want.answers[i]) {
+      const detail = `has(${queries[2 * i]}, ${queries[2 * i + 1]}) = ${Boolean(got.answers[i])}, expected ${Boolean(want.answers[i])}`;
+      throw new VerificationError(name, ref, detail);
+    }
+  }
+  const fields = ['weight', 'edgeAttributes weight', 'outSlot', 'inSlot', 'type'];
+  for (let i = 0, k = 0; i < want.answers.length && k < want.attributes.length; i++) {
+    if (!want.answers[i]) continue;
+    for (let f = 0; f < fields.length; f++, k++) {
+      // NaN marks a missing value; equal NaNs still differ under !==
+      if (got.attributes[k] !== want.attributes[k] && !(Number.isNaN(got.attributes[k]) && Number.isNaN(want.attributes[k]))) {
+        const detail = `${fields[f]} of (${queries[2 * i]}, ${queries[2 * i + 1]}) = ${got.attributes[k]}, expected ${want.attributes[k]}`;
+        throw new VerificationError(name, ref, detail);
+      }
+    }
+  }
+  for (let u = 0; u < n; u++) {
+    if (!sameList(got.out[u], want.out[u])) {
+      throw new VerificationError(name, ref, `outNeighbors(${u}) = ${show(got.out[u])}, expected ${show(want.out[u])}`);
+    }
+    if (!sameList(got.inn[u], want.inn[u])) {
+      throw new VerificationError(name, ref, `inNeighbors(${u}) = ${show(got.inn[u])}, expected ${show(want.inn[u])}`);
+    }
+  }
+  if (got.hits !== want.hits) throw new VerificationError(name, ref, `hits = ${got.hits}, expected ${want.hits}`);
+  if (got.touched !== want.touched) throw new VerificationError(name, ref, `touched = ${got.touched}, expected ${want.touched}`);
+}
+
+// forEachOut, iterateOut and fillOut must list the same neighbors as the structure's own
+// outNeighbors. fillOut starts from a one-entry buffer so the retry path is exercised too.
+function checkNeighborApis(name: string, g: GraphStructure, n: number, out: number[][]): void {
+  let buffer = new Int32Array(1);
+  for (let u = 0; u < n; u++) {
+    const visited: number[] = [];
+    g.forEachOut(u, v => { visited.push(v); });
+    let count = g.fillOut(u, buffer);
+    if (count > buffer.length) {
+      buffer = new Int32Array(count);
+      count = g.fillOut(u, buffer);
+    }
+    const lists: [string, number[]][] = [
+      ['forEachOut', sorted(visited)],
+      ['iterateOut', sorted(Array.from(g.iterateOut(u)))],
+      ['fillOut', sorted(buffer.subarray(0, count))],
+    ];
+    for (const [api, list] of lists) {
+      if (!sameList(list, out[u])) {
+        throw new VerificationError(name, 'its outNeighbors', `${api}(${u}) = ${show(list)}, expected ${show(out[u])}`);
+      }
+    }
+  }
+}
+
+// Builds each structure in turn (untimed) and compares it with the first; throws VerificationError
+export function verifyStructures(
+  defs: StructureDefinition[],
+  n: number,
+  edges: Edge[],
+  mode: GraphMode,
+  random: Random
+): VerificationSummary {
+  let queries: Int32Array;
+  if (n <= EXHAUSTIVE_LIMIT) {
+    queries = new Int32Array(2 * n * n);
+    for (let u = 0, i = 0; u < n; u++) {
+      for (let v = 0; v < n; v++, i += 2) {
+        queries[i] = u;
+        queries[i + 1] = v;
+      }
+    }
+  } else {
+    const extra = n * RANDOM_PAIRS_PER_NODE;
+    queries = new Int32Array(2 * (edges.length + extra));
+    let i = 0;
+    for (const [u, v] of edges) {
+      queries[i++] = u;
+      queries[i++] = v;
+    }
+    for (let k = 0; k < extra; k++) {
+      queries[i++] = Math.floor(random() * n);
+      queries[i++] = Math.floor(random() * n);
+    }
+  }
+
+  if (defs.length === 0) return { structures: 0, pairs: queries.length / 2, hits: 0, touched: 0 };
+  const check = (def: StructureDefinition): Snapshot => {
+    const g = def.build(n, edges, mode);
+    const snap = snapshot(g, n, queries, !mode.multigraph);
+    checkNeighborApis(def.name, g, n, snap.out);
+    return snap;
+  };
+  const reference = check(defs[0]);
+  for (const def of defs.slice(1)) compare(def.name, defs[0].name, check(def), reference, n, queries);
+  return { structures: defs.length, pairs: queries.length / 2, hits: reference.hits, touched: reference.touched };
+}
@@ -0,0 +1,221 @@
+// Graph algorithm workloads run over any GraphStructure, shared by the CLI and the web UI.
+// Each algorithm covers the whole graph once (restarting from every unvisited node where that
+// makes sense) and reports how many adjacency entries it examined, so runs on different
+// structures and topologies can be normalized per visited edge.
+
+import type { GraphStructure } from './structures';
+
+export type WorkloadId = 'bfs' | 'dfs' | 'topoSort' | 'cycleCheck' | 'components' | 'dijkstra';
+
+export interface WorkloadResult {
+  edges: number;     // adjacency entries examined
+  checksum: number;  // consumed by the caller so the work cannot be optimized away
+}
+
+export interface WorkloadDefinition {
+  id: WorkloadId;
+  label: string;
+  run: (g: GraphStructure) => WorkloadResult;
+}
+
+// Breadth-first search from every unvisited node
+function bfs(g: GraphStructure): WorkloadResult {
+  const n = g.n;
+  const seen = new Uint8Array(n);
+  const queue = new Int32Array(n);
+  let edges = 0, checksum = 0;
+  for (let s = 0; s < n; s++) {
+    if (seen[s]) continue;
+    seen[s] = 1;
+    let head = 0, tail = 0;
+    queue[tail++] = s;
+    while (head < tail) {
+      const u = queue[head++];
+      checksum += u * head;
+      const out = g.outNeighbors(u);
+      edges += out.length;
+      for (let i = 0; i < out.length; i++) {
+        const v = out[i];
+        if (!seen[v]) {
+          seen[v] = 1;
+          queue[tail++] = v;
+        }
+      }
+    }
+  }
+  return { edges, checksum };
+}
+
+// Iterative depth-first walk with an explicit frame stack. Each frame keeps the neighbor list
+// it is scanning so outNeighbors is called once per node, as a recursive DFS would.
+// `onCycle` is called for every back edge (an edge into a node still on the stack).
+function depthFirst(g: GraphStructure, onCycle?: () => void): WorkloadResult {
+  const n = g.n;
+  const state = new Uint8Array(n); // 0 = unvisited, 1 = on stack, 2 = finished
+  const nodes = new Int32Array(n);
+  const next = new Int32Array(n);
+  const lists: ArrayLike<number>[] = new Array(n);
+  let edges = 0, checksum = 0, order = 0;
+  for (let s = 0; s < n; s++) {
+    if (state[s]) continue;
+    let top = 0;
+    nodes[0] = s; next[0] = 0; lists[0] = g.outNeighbors(s);
+    state[s] = 1;
+    checksum += s * ++order;
+    while (top >= 0) {
+      const list = lists[top];
+      if (next[top] < list.length) {
+        const v = list[next[top]++];
+        edges++;
+        if (state[v] === 0) {
+          state[v] = 1;
+          checksum += v * ++order;
+          top++;
+          nodes[top] = v; next[top] = 0; lists[top] = g.outNeighbors(v);
+        } else if (state[v] === 1) {
+          onCycle?.();
+        }
+      } else {
+        state[nodes[top]] = 2;
+        top--;
+      }
+    }
+  }
+  return { edges, checksum };
+}
+
+function dfs(g: GraphStructure): WorkloadResult {
+  return depthFirst(g);
+}
+
+// Three-color DFS; the checksum is the number of back edges (0 for the generated DAGs)
+function cycleCheck(g: GraphStructure): WorkloadResult {
+  let backEdges = 0;
+  const { edges } = depthFirst(g, () => backEdges++);
+  return { edges, checksum: backEdges };
+}
+
+// Kahn's algorithm: one pass to count in-degrees, one to peel sources.
+// Nodes left unsorted (cycles) only lower the checksum.
+function topoSort(g: GraphStructure): WorkloadResult {
+  const n = g.n;
+  const indegree = new Int32Array(n);
+  let edges = 0;
+  for (let u = 0; u < n; u++) {
+    const out = g.outNeighbors(u);
+    edges += out.length;
+    for (let i = 0; i < out.length; i++) indegree[out[i]]++;
+  }
+  const queue = new Int32Array(n);
+  let head = 0, tail = 0;
+  for (let u = 0; u < n; u++) if (indegree[u] === 0) queue[tail++] = u;
+  let checksum = 0;
+  while (head < tail) {
+    const u = queue[head++];
+    checksum += u * head;
+    const out = g.outNeighbors(u);
+    edges += out.length;
+    for (let i = 0; i < out.length; i++) {
+      if (--indegree[out[i]] === 0) queue[tail++] = out[i];
+    }
+  }
+  return { edges, checksum };
+}
+
+// Weakly connected components: BFS over out- and in-neighbors; the checksum is the component count
+function components(g: GraphStructure): WorkloadResult {
+  const n = g.n;
+  const seen = new Uint8Array(n);
+  const queue = new Int32Array(n);
+  let edges = 0, count = 0;
+  for (let s = 0; s < n; s++) {
+    if (seen[s]) continue;
+    count++;
+    seen[s] = 1;
+    let head = 0, tail = 0;
+    queue[tail++] = s;
+    while (head < tail) {
+      const u = queue[head++];
+      const out = g.outNeighbors(u), inn = g.inNeighbors(u);
+      edges += out.length + inn.length;
+      for (let i = 0; i < out.length; i++) {
+        if (!seen[out[i]]) { seen[out[i]] = 1; queue[tail++] = out[i]; }
+      }
+      for (let i = 0; i < inn.length; i++) {
+        if (!seen[inn[i]]) { seen[inn[i]] = 1; queue[tail++] = inn[i]; }
+      }
+    }
+  }
+  return { edges, checksum: count };
+}
+
+// Single-source shortest paths from node 0 with a binary min-heap and lazy deletion.
+// Weights come from g.weight(u, v), so the structure's weight lookup is part of the cost.
+function dijkstra(g: GraphStructure): WorkloadResult {
+  const n = g.n;
+  if (n === 0) return { edges: 0, checksum: 0 };
+  const dist = new Float64Array(n).fill(Infinity);
+  const done = new Uint8Array(n);
+  const heapNode: number[] = [];
+  const heapDist: number[] = [];
+
+  const push = (node: number, d: number) => {
+    let i = heapNode.length;
+    heapNode.push(node); heapDist.push(d);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heapDist[parent] <= d) break;
+      heapNode[i] = heapNode[parent]; heapDist[i] = heapDist[parent];
+      i = parent;
+    }
+    heapNode[i] = node; heapDist[i] = d;
+  };
+  const pop = (): number => {
+    const top = heapNode[0];
+    const lastNode = heapNode.pop()!, lastDist = heapDist.pop()!;
+    const size = heapNode.length;
+    if (size > 0) {
+      let i = 0;
+      for (;;) {
+        let child = 2 * i + 1;
+        if (child >= size) break;
+        if (child + 1 < size && heapDist[child + 1] < heapDist[child]) child++;
+        if (heapDist[child] >= lastDist) break;
+        heapNode[i] = heapNode[child]; heapDist[i] = heapDist[child];
+        i = child;
+      }
+      heapNode[i] = lastNode; heapDist[i] = lastDist;
+    }
+    return top;
+  };
+
+  let edges = 0, checksum = 0;
+  dist[0] = 0;
+  push(0, 0);
+  while (heapNode.length) {
+    const u = pop();
+    if (done[u]) continue;
+    done[u] = 1;
+    checksum += dist[u];
+    const out = g.outNeighbors(u);
+    edges += out.length;
+    for (let i = 0; i < out.length; i++) {
+      const v = out[i];
+      const d = dist[u] + (g.weight(u, v) ?? 1);
+      if (d < dist[v]) {
+        dist[v] = d;
+        push(v, d);
+      }
+    }
+  }
+  return { edges, checksum };
+}
+
+export const WORKLOADS: WorkloadDefinition[] = [
+  { id: 'bfs', label: 'BFS', run: bfs },
+  { id: 'dfs', label: 'DFS', run: dfs },
+  { id: 'topoSort', label: 'Topological Sort (Kahn)', run: topoSort },
+  { id: 'cycleCheck', label: 'Cycle Detection', run: cycleCheck },
+  { id: 'components', label: 'Connected Components', run: components },
+  { id: 'dijkstra', label: 'Dijkstra', run: dijkstra },
+];
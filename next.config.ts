@@ -1,9 +1,35 @@
 import type { NextConfig } from "next";
+import { execSync } from "child_process";
+
+// Saved with web results so they can be matched to the code that produced them
+function gitCommit(): string {
+  try {
+    return execSync("git describe --always --dirty", { encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+  } catch {
+    return "";
+  }
+}
 
 const nextConfig: NextConfig = {
+  env: {
+    NEXT_PUBLIC_GIT_COMMIT: gitCommit(),
+  },
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // Cross-origin isolation unlocks performance.measureUserAgentSpecificMemory(), which the
+  // page calls for the benchmark worker (see lib/environment.browser.ts)
+  async headers() {
+    return [
+      {
+        source: "/:path*",
+        headers: [
+          { key: "Cross-Origin-Opener-Policy", value: "same-origin" },
+          { key: "Cross-Origin-Embedder-Policy", value: "require-corp" },
+        ],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,241 @@
+// Option parsing shared by the graph-bench subcommands
+// Options are declared once per command (type, default, bounds, help text); parseOptions()
+// validates the command line and an optional JSON config file against them.
+
+import * as fs from 'fs';
+
+// Exit codes used by every subcommand
+export const EXIT = {
+  OK: 0,
+  FAILED: 1,    // the command ran and its check failed: regressions, structures disagreeing
+  USAGE: 2,     // bad options, unreadable or invalid input files
+  INTERNAL: 3,  // unexpected error (a bug)
+} as const;
+
+// Invalid command line or input; printed without a stack trace and exits with EXIT.USAGE
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+type OptionType = 'int' | 'number' | 'string' | 'boolean' | 'int-list' | 'list';
+
+export interface OptionSpec {
+  type: OptionType;
+  description: string;
+  default?: number | string | boolean | readonly number[] | readonly string[];
+  min?: number;                 // for int, number and each int-list entry
+  max?: number;
+  choices?: readonly string[];  // for string and each list entry
+  placeholder?: string;         // shown in help, e.g. --sizes=10,50,200
+}
+
+export type OptionSpecs = Record<string, OptionSpec>;
+
+type ValueOf<T extends OptionType> =
+  T extends 'int' | 'number' ? number :
+  T extends 'boolean' ? boolean :
+  T extends 'int-list' ? number[] :
+  T extends 'list' ? string[] :
+  string;
+
+// Options with a default are always set; the rest may be undefined
+export type ParsedOptions<S extends OptionSpecs> = {
+  [K in keyof S]: S[K] extends { default: unknown } ? ValueOf<S[K]['type']> : ValueOf<S[K]['type']> | undefined;
+};
+
+// Option keys are camelCase; flags are their kebab-case form (graphFormat -> --graph-format)
+const flagName = (key: string) => key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+const keyName = (flag: string) => flag.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+const specFor = (specs: OptionSpecs, key: string): OptionSpec | undefined =>
+  Object.prototype.hasOwnProperty.call(specs, key) ? specs[key] : undefined;
+
+function checkChoice(flag: string, spec: OptionSpec, value: string): string {
+  if (spec.choices && !spec.choices.includes(value)) {
+    throw new UsageError(`--${flag} must be one of ${spec.choices.join(', ')}; got "${value}"`);
+  }
+  return value;
+}
+
+function checkRange(flag: string, spec: OptionSpec, value: number): void {
+  if (spec.min !== undefined && value < spec.min) throw new UsageError(`--${flag} must be at least ${spec.min}, got ${value}`);
+  if (spec.max !== undefined && value > spec.max) throw new UsageError(`--${flag} must be at most ${spec.max}, got ${value}`);
+}
+
+function parseInteger(flag: string, spec: OptionSpec, raw: string): number {
+  if (!/^-?\d+$/.test(raw.trim())) throw new UsageError(`--${flag} expects an integer, got "${raw}"`);
+  const value = Number(raw);
+  checkRange(flag, spec, value);
+  return value;
+}
+
+// Coerces a command line string or config file value to the option's type
+function convert(flag: string, spec: OptionSpec, raw: unknown): number | string | boolean | number[] | string[] {
+  switch (spec.type) {
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw;
+      if (raw === 'true' || raw === 'false') return raw === 'true';
+      throw new UsageError(`--${flag} expects true or false, got "${raw}"`);
+    case 'int':
+      return parseInteger(flag, spec, String(raw));
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).trim() || NaN);
+      if (!Number.isFinite(value)) throw new UsageError(`--${flag} expects a number, got "${raw}"`);
+      checkRange(flag, spec, value);
+      return value;
+    }
+    case 'int-list': {
+      const items = Array.isArray(raw) ? raw.map(String) : String(raw).split(',');
+      if (items.length === 0 || items.some(s => s.trim() === '')) {
+        throw new UsageError(`--${flag} expects a comma-separated list of integers, got "${raw}"`);
+      }
+      return items.map(item => parseInteger(flag, spec, item));
+    }
+    case 'list': {
+      const items = Array.isArray(raw) ? raw.map(String) : String(raw).split(',');
+      if (items.length === 0 || items.some(s => s.trim() === '')) {
+        throw new UsageError(`--${flag} expects a comma-separated list, got "${raw}"`);
+      }
+      return items.map(item => checkChoice(flag, spec, item.trim()));
+    }
+    case 'string':
+      return checkChoice(flag, spec, String(raw));
+  }
+}
+
+// Levenshtein distance, for "did you mean" hints
+function distance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+export function suggest(name: string, candidates: string[]): string {
+  const best = candidates
+    .map(c => ({ c, d: distance(name, c) }))
+    .filter(x => x.d <= Math.max(2, Math.floor(name.length / 3)))
+    .sort((a, b) => a.d - b.d)[0];
+  return best ? ` Did you mean "${best.c}"?` : '';
+}
+
+function unknownOption(flag: string, specs: OptionSpecs): UsageError {
+  const flags = Object.keys(specs).map(key => `--${flagName(key)}`);
+  return new UsageError(`Unknown option --${flag}.${suggest(`--${flag}`, flags)}`);
+}
+
+// Values from a JSON config file: an object keyed by option name (camelCase or kebab-case)
+function readConfigFile(filePath: string, specs: OptionSpecs): Record<string, unknown> {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (e) {
+    throw new UsageError(`Cannot read config file ${filePath}: ${(e as Error).message}`);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new UsageError(`Config file ${filePath} must contain a JSON object of options`);
+  }
+  const values: Record<string, unknown> = {};
+  for (const [name, raw] of Object.entries(data)) {
+    const key = keyName(name);
+    const spec = specFor(specs, key);
+    if (!spec || key === 'config') {
+      throw new UsageError(`Config file ${filePath}: ${unknownOption(flagName(key), specs).message}`);
+    }
+    values[key] = convert(flagName(key), spec, raw);
+  }
+  return values;
+}
+
+// Parses `--name=value`, `--name value`, `--flag` and `--no-flag` against the specs.
+// Precedence: defaults < --config file < command line. Other arguments are positionals.
+export function parseOptions<S extends OptionSpecs>(
+  argv: string[],
+  specs: S
+): { options: ParsedOptions<S>; positionals: string[] } {
+  const fromArgs: Record<string, unknown> = {};
+  const positionals: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    const flag = eq < 0 ? arg.slice(2) : arg.slice(2, eq);
+    let key = keyName(flag);
+    let spec = specFor(specs, key);
+
+    if (!spec && flag.startsWith('no-') && eq < 0) {
+      // --no-self-loops negates the boolean --self-loops
+      key = keyName(flag.slice(3));
+      spec = specFor(specs, key);
+      if (spec?.type !== 'boolean') throw unknownOption(flag, specs);
+      fromArgs[key] = false;
+      continue;
+    }
+    if (!spec) throw unknownOption(flag, specs);
+
+    if (eq >= 0) {
+      fromArgs[key] = convert(flag, spec, arg.slice(eq + 1));
+    } else if (spec.type === 'boolean') {
+      fromArgs[key] = true;
+    } else {
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith('--')) throw new UsageError(`--${flag} needs a value`);
+      fromArgs[key] = convert(flag, spec, next);
+      i++;
+    }
+  }
+
+  const configPath = fromArgs.config;
+  const fromFile = typeof configPath === 'string' ? readConfigFile(configPath, specs) : {};
+
+  const options: Record<string, unknown> = {};
+  for (const [key, spec] of Object.entries(specs)) {
+    options[key] = key in fromArgs ? fromArgs[key] : key in fromFile ? fromFile[key] : spec.default;
+  }
+  return { options: options as ParsedOptions<S>, positionals };
+}
+
+// Option table for --help, aligned like the rest of the CLI's help text
+export function formatOptions(specs: OptionSpecs): string {
+  const lines = Object.entries(specs).map(([key, spec]) => {
+    const flag = flagName(key);
+    let left: string;
+    if (spec.type === 'boolean') left = spec.default === true ? `--no-${flag}` : `--${flag}`;
+    else left = `--${flag}=${spec.placeholder ?? (spec.default !== undefined ? String(spec.default) : '<value>')}`;
+    let text = spec.description;
+    if (spec.choices) text += ` (${spec.choices.join(', ')})`;
+    if (spec.default !== undefined && spec.type !== 'boolean') text += ` (default: ${spec.default})`;
+    return { left, text };
+  });
+  const width = Math.max(...lines.map(l => l.left.length)) + 2;
+  return lines.map(l => `  ${l.left.padEnd(width)}${l.text}`).join('\n');
+}
+
+export interface Command<S extends OptionSpecs = OptionSpecs> {
+  name: string;
+  summary: string;      // one line for the command list
+  arguments?: string;   // positionals in the usage line, e.g. '[baseline.json current.json]'
+  options: S;
+  notes?: string;       // extra help text after the option table
+  run: (options: ParsedOptions<S>, positionals: string[]) => Promise<number> | number;
+}
+
+// Keeps each command's option types while storing them in one list
+export function defineCommand<S extends OptionSpecs>(command: Command<S>): Command {
+  return command as unknown as Command;
+}
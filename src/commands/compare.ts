@@ -0,0 +1,81 @@
+// compare - Regression check between two saved benchmark runs
+// Exits with EXIT.FAILED when a metric regressed past the threshold.
+
+import { compareResults, type MetricDelta } from '../../lib/compare';
+import { defineCommand, EXIT, UsageError } from '../cli';
+import { latestResultFiles, loadResults } from '../output';
+
+const formatValue = (d: MetricDelta, x: number) => x.toFixed(d.metric.digits);
+
+function describe(d: MetricDelta): string {
+  const sign = d.delta > 0 ? '+' : '';
+  const arrow = d.delta > 0 ? '▲' : d.delta < 0 ? '▼' : ' ';
+  const verdict = d.regression ? 'REGRESSION' : d.significant === null ? 'no statistics' : d.significant ? 'significant' : 'noise';
+  return `  ${arrow} ${d.metric.prefix.padEnd(20)} ${d.structure.padEnd(6)} `
+    + `${formatValue(d, d.baseline).padStart(10)} -> ${formatValue(d, d.current).padStart(10)} `
+    + `${(sign + formatValue(d, d.delta)).padStart(10)} ${(sign + d.percent.toFixed(1) + '%').padStart(8)}  ${verdict}`;
+}
+
+export const compareCommand = defineCommand({
+  name: 'compare',
+  summary: 'Compare two saved runs and fail on regressions (default: the two latest)',
+  arguments: '[baseline.json current.json]',
+  options: {
+    threshold: { type: 'number', description: 'Percent increase that counts as a regression', default: 5, min: 0 },
+    all: { type: 'boolean', description: 'Print every metric, not only significant changes and regressions', default: false },
+    gateMemory: {
+      type: 'boolean',
+      description: 'Also fail on memory (and files without statistics columns) past the threshold',
+      default: false,
+    },
+  },
+  notes: `Rows are matched by n and structure. A change is significant when it exceeds the combined
+95% confidence intervals of both runs; only significant increases past the threshold count
+as regressions. Memory has no confidence interval, so it is only reported unless --gate-memory.`,
+  run: (options, positionals) => {
+    if (positionals.length !== 0 && positionals.length !== 2) {
+      throw new UsageError('Pass two result files (baseline, then current) or none to compare the two latest.');
+    }
+    const [baselinePath, currentPath] = positionals.length ? positionals : latestResultFiles(2);
+    const baseline = loadResults(baselinePath);
+    const current = loadResults(currentPath);
+    const threshold = options.threshold;
+    const comparison = compareResults(baseline, current, { thresholdPercent: threshold, gateWithoutStats: options.gateMemory });
+
+    console.log('\nBENCHMARK COMPARISON');
+    console.log('='.repeat(60));
+    console.log(`Baseline: ${baselinePath} (${baseline.timestamp})`);
+    console.log(`Current:  ${currentPath} (${current.timestamp})`);
+    console.log(`Regression threshold: +${threshold}%`);
+    if (comparison.configChanges.length) {
+      console.log('\nWarning: the runs used different settings, so differences may not be regressions:');
+      for (const change of comparison.configChanges) console.log(`  ${change}`);
+    }
+    if (comparison.runtimeChanges.length) {
+      console.log('\nWarning: the runs were measured on different machines or runtimes:');
+      for (const change of comparison.runtimeChanges) console.log(`  ${change}`);
+    }
+    if (comparison.unmatched.length) {
+      console.log('\nNot compared:');
+      for (const item of comparison.unmatched) console.log(`  ${item}`);
+    }
+    if (comparison.sizes.length === 0) throw new UsageError('The runs have no graph size in common.');
+
+    for (const n of comparison.sizes) {
+      const shown = comparison.deltas.filter(d => d.n === n && (options.all || d.regression || d.significant
+        || (d.significant === null && Math.abs(d.percent) > threshold)));
+      console.log(`\nn=${n}:`);
+      if (shown.length === 0) console.log('  no significant changes');
+      for (const d of shown) console.log(describe(d));
+    }
+
+    console.log('\n' + '='.repeat(60));
+    if (comparison.regressions.length) {
+      console.log(`${comparison.regressions.length} regression(s) past +${threshold}%:`);
+      for (const d of comparison.regressions) console.log(`  n=${d.n} ${d.metric.prefix} ${d.structure}: +${d.percent.toFixed(1)}%`);
+      return EXIT.FAILED;
+    }
+    console.log(`No regressions past +${threshold}% across ${comparison.deltas.length} compared values.`);
+    return EXIT.OK;
+  },
+});
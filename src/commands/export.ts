@@ -0,0 +1,28 @@
+// export - Re-render a saved run in another format
+
+import * as fs from 'fs';
+import { defineCommand, EXIT, UsageError } from '../cli';
+import { latestResultFiles, loadResults } from '../output';
+import { OUTPUT_FORMATS, renderResults, type OutputFormat } from '../../lib/formats';
+
+export const exportCommand = defineCommand({
+  name: 'export',
+  summary: 'Write a saved run in another format (default: the latest run, to stdout)',
+  arguments: '[results.json]',
+  options: {
+    format: { type: 'string', description: 'Output format', default: 'csv', choices: OUTPUT_FORMATS.map(f => f.id) },
+    out: { type: 'string', description: 'Write to a file instead of stdout', placeholder: 'path' },
+  },
+  run: (options, positionals) => {
+    if (positionals.length > 1) throw new UsageError('export takes at most one result file');
+    const data = loadResults(positionals[0] ?? latestResultFiles(1)[0]);
+    const text = renderResults(data, options.format as OutputFormat);
+    if (options.out) {
+      fs.writeFileSync(options.out, text);
+      console.log(`Wrote ${options.format} to ${options.out}`);
+    } else {
+      process.stdout.write(text.endsWith('\n') ? text : text + '\n');
+    }
+    return EXIT.OK;
+  },
+});
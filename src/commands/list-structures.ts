@@ -0,0 +1,29 @@
+// list-structures - The registered graph representations, as benchmarked by `run`
+
+import { getStructures } from '../../lib/structures';
+import { defineCommand, EXIT } from '../cli';
+
+export const listStructuresCommand = defineCommand({
+  name: 'list-structures',
+  summary: 'List the registered graph structures',
+  options: {
+    json: { type: 'boolean', description: 'Print a JSON array instead of a table', default: false },
+  },
+  run: (options) => {
+    const structures = getStructures().map(s => ({
+      name: s.name,
+      label: s.label,
+      color: s.color,
+      memoryEstimate: Boolean(s.estimateBytes),
+    }));
+    if (options.json) {
+      console.log(JSON.stringify(structures, null, 2));
+      return EXIT.OK;
+    }
+    const width = Math.max(...structures.map(s => s.name.length)) + 2;
+    for (const s of structures) {
+      console.log(`${s.name.padEnd(width)}${s.label}${s.memoryEstimate ? '' : ' (no memory estimate)'}`);
+    }
+    return EXIT.OK;
+  },
+});
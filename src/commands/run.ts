@@ -0,0 +1,200 @@
+// run - Graph Data Structure Performance Benchmarking
+// Run with: npm run graph-bench -- run [options] (add --expose-gc to NODE_OPTIONS for stable memory numbers)
+// Results are saved to: ./benchmark-results/
+// The measurements themselves live in lib/benchmark.ts, shared with the web UI.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getStructures } from '../../lib/structures';
+import { METRICS, metricKey, statKey } from '../../lib/metrics';
+import { getTopology, TOPOLOGIES, DEFAULT_TOPOLOGY } from '../../lib/generators';
+import { parseGraph, GRAPH_FORMATS, GraphImportError, type GraphFormat, type LoadedGraph } from '../../lib/importers';
+import { randomSeed } from '../../lib/random';
+import { VerificationError } from '../../lib/verify';
+import { runBenchmark, estimateOperations, traversalReps, type BenchmarkConfig, type BenchmarkResult } from '../../lib/benchmark';
+import { createNodeEnvironment } from '../../lib/environment.node';
+import { defineCommand, EXIT, UsageError, type ParsedOptions } from '../cli';
+import { saveResults } from '../output';
+import { OUTPUT_FORMATS, type OutputFormat } from '../../lib/formats';
+
+// -------------------- Config --------------------
+const RUN_OPTIONS = {
+  config: { type: 'string', description: 'JSON file of options for a saved suite (command line flags override it)', placeholder: 'suite.json' },
+  sizes: { type: 'int-list', description: 'Node counts to test', default: [10, 50, 200, 500], min: 2, placeholder: '10,50,200' },
+  samples: { type: 'int', description: 'Lookup operations per test', default: 10000, min: 1 },
+  reps: { type: 'int', description: 'Traversal passes per trial at n=100, scaled down for larger graphs', default: 500, min: 1 },
+  degree: { type: 'number', description: 'Average out-degree', default: 8, min: 0 },
+  mutations: { type: 'int', description: 'Add/remove edge and vertex operations per test', default: 1000, min: 1 },
+  trials: { type: 'int', description: 'Timed repetitions per metric, summarized with a 95% CI', default: 5, min: 1 },
+  warmup: { type: 'int', description: 'Untimed warmup repetitions before the trials', default: 1, min: 0 },
+  seed: { type: 'int', description: 'PRNG seed for edges and query samples (default: random, printed and saved)', min: 0, max: 0xFFFFFFFF, placeholder: '42' },
+  topology: { type: 'string', description: 'Graph shape', default: DEFAULT_TOPOLOGY, choices: TOPOLOGIES.map(t => t.id) },
+  graph: { type: 'string', description: 'Benchmark a graph file instead of generated ones (--sizes, --topology and --degree are ignored)', placeholder: 'path' },
+  graphFormat: { type: 'string', description: 'Force the file format (default: detected from extension and content)', choices: GRAPH_FORMATS.map(f => f.id) },
+  multigraph: { type: 'boolean', description: 'Keep parallel u -> v edges (default: simple graph, repeats are dropped)', default: false },
+  selfLoops: { type: 'boolean', description: 'Drop u -> u edges (default: kept)', default: true },
+  verify: { type: 'boolean', description: 'Skip checking that all structures agree before timing', default: true },
+  format: {
+    type: 'list',
+    description: 'Result files to write; JSON is always written',
+    default: ['json', 'csv'],
+    choices: OUTPUT_FORMATS.map(f => f.id),
+    placeholder: 'json,csv,md',
+  },
+} as const;
+
+type RunOptions = ParsedOptions<typeof RUN_OPTIONS>;
+
+function loadGraph(filePath: string, format: GraphFormat | undefined): LoadedGraph {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (e) {
+    throw new UsageError(`Failed to load graph: cannot read ${filePath}: ${(e as Error).message}`);
+  }
+  try {
+    return parseGraph(path.basename(filePath), text, format);
+  } catch (e) {
+    if (e instanceof GraphImportError) throw new UsageError(`Failed to load graph: ${e.message}`);
+    throw e;
+  }
+}
+
+function resolveConfig(options: RunOptions): BenchmarkConfig {
+  return {
+    sizes: options.sizes,
+    samples: options.samples,
+    reps: options.reps,
+    degree: options.degree,
+    mutations: options.mutations,
+    seed: (options.seed ?? randomSeed()) >>> 0, // random unless given; always recorded
+    topology: options.topology,
+    multigraph: options.multigraph,
+    selfLoops: options.selfLoops,
+    verify: options.verify,
+    trials: options.trials,
+    warmup: options.warmup,
+  };
+}
+
+// Console summary of one size: one line per metric, one column per structure
+function summarizeRow(row: BenchmarkResult, structures: string[]): Record<string, Record<string, string>> {
+  const summary: Record<string, Record<string, string>> = {};
+  for (const m of METRICS) {
+    const line: Record<string, string> = summary[`${m.title} (${m.unit})`] = {};
+    for (const name of structures) {
+      // Unmeasured: snapshots without clone(), edge mutations below 2 nodes
+      if (row[metricKey(m.id, name)] === undefined) {
+        line[name] = '–';
+        continue;
+      }
+      const mean = row[metricKey(m.id, name)].toFixed(m.digits);
+      const ci = row[statKey(m.id, name, 'ci95')];  // absent for a single trial
+      line[name] = m.timed && Number.isFinite(ci) ? `${mean} ±${ci.toFixed(m.digits)}` : mean;
+    }
+  }
+  return summary;
+}
+
+// -------------------- Runner --------------------
+async function runCli(options: RunOptions): Promise<number> {
+  const config = resolveConfig(options);
+  // A loaded graph replaces the generated sizes with its own single size
+  const graph = options.graph ? loadGraph(options.graph, options.graphFormat as GraphFormat | undefined) : null;
+  const environment = createNodeEnvironment();
+  const structures = getStructures().map(s => s.name);
+
+  console.log('Starting graph benchmark...');
+  if (graph) {
+    console.log(`Graph file: ${graph.name} (${graph.format}, ${graph.n} nodes, ${graph.edges.length} edges)`);
+  } else {
+    console.log(`Testing sizes: ${config.sizes.join(', ')} nodes`);
+    console.log(`Topology: ${getTopology(config.topology)!.label}`);
+    console.log(`Average out-degree: ${config.degree}`);
+  }
+  console.log(`Lookup samples: ${config.samples.toLocaleString()}`);
+  console.log(`Traversal reps: ${config.reps.toLocaleString()} at n=100 (${(graph ? [graph.n] : config.sizes).map(n => traversalReps(config, n)).join(', ')} per size)`);
+  console.log(`Mutation ops: ${config.mutations.toLocaleString()}`);
+  console.log(`Trials: ${config.trials} (+${config.warmup} warmup)`);
+  console.log(`Seed: ${config.seed} (pass --seed=${config.seed} to reproduce)`);
+  console.log(`Graph mode: ${config.multigraph ? 'multigraph' : 'simple'}, self-loops ${config.selfLoops ? 'allowed' : 'dropped'}`);
+  console.log(`Structures: ${structures.join(', ')}`);
+  if (!environment.gc) console.warn('GC not available, memory readings include garbage. Run with: NODE_OPTIONS=--expose-gc npm run graph-bench -- run');
+
+  console.log(`\nEstimated total operations: ${estimateOperations(config, graph).toLocaleString()}`);
+  console.log('Use "graph-bench run --help" for configuration options');
+  console.log('\n' + '='.repeat(80));
+
+  let rows: BenchmarkResult[];
+  try {
+    rows = await runBenchmark(config, environment, {
+      onVerified: (n, check) => console.log(`n=${n}: ${check.structures} structures agree on ${check.pairs.toLocaleString()} has() queries and ${check.touched.toLocaleString()} neighbor entries`),
+      onResult: row => console.log(`n=${row.n}: measured ${structures.length} structures`),
+    }, graph);
+  } catch (e) {
+    if (!(e instanceof VerificationError)) throw e;
+    console.error(`\nVerification failed: ${e.message}`);
+    return EXIT.FAILED;
+  }
+
+  // Save results to disk, in the same layout as the web UI's download
+  const files = saveResults({
+    timestamp: new Date().toISOString(),
+    config,
+    graph: graph ? { name: graph.name, format: graph.format, n: graph.n, edges: graph.edges.length } : null,
+    memorySource: environment.memory.source,
+    runtime: environment.runtime,
+    structures,
+    results: rows,
+  }, options.format as OutputFormat[]);
+  console.log(`\nResults saved to:\n${files.map(f => `  ${f}`).join('\n')}`);
+  
+  // Pretty-print
+  console.log('\n' + '='.repeat(80));
+  console.log('BENCHMARK RESULTS:');
+  console.log('='.repeat(80));
+  console.log(`Timed metrics: mean ±95% CI over ${config.trials} trials (${config.warmup} warmup). Full statistics are in the saved files.`);
+  for (const row of rows) {
+    console.log(`\nn=${row.n}, edges=${row.edges} (input had ${row.duplicates} duplicates, ${row.selfLoops} self-loops)`);
+    console.table(summarizeRow(row, structures));
+  }
+  
+  // Performance summary
+  console.log('\nPERFORMANCE ANALYSIS:');
+  console.log('='.repeat(50));
+  console.log('At 200 lookups/sec and 50 traversals/sec per node:');
+  
+  for (const row of rows) {
+    const lookupBudget = (200 * row[metricKey('hasEdge', 'AL')]) / 1e6; // ms/sec
+    const traverseBudget = (50 * row[metricKey('traverseOut', 'AL')]) / 1e6;
+    console.log(`n=${row.n}: Lookup budget: ${lookupBudget.toFixed(2)}ms/s, Traverse: ${traverseBudget.toFixed(2)}ms/s`);
+  }
+  
+  console.log('\nBenchmark completed successfully!');
+  return EXIT.OK;
+}
+
+export const runCommand = defineCommand({
+  name: 'run',
+  summary: 'Benchmark every registered structure and save the results',
+  options: RUN_OPTIONS,
+  notes: `Topologies:
+${TOPOLOGIES.map(t => `  ${t.id.padEnd(16)} ${t.description}`).join('\n')}
+
+Graph files: edge list, .mtx, DIMACS, GraphML or LiteGraph/ComfyUI workflow JSON.
+
+Examples:
+  # Quick test
+  npm run graph-bench -- run --sizes=10,50 --samples=1000 --reps=100
+
+  # Scale-free graph with hubs
+  npm run graph-bench -- run --sizes=200,1000 --topology=barabasi-albert --degree=4
+
+  # A real graph
+  npm run graph-bench -- run --graph=./workflow.json
+
+  # A saved suite, with one setting overridden
+  npm run graph-bench -- run --config=suites/large.json --trials=10`,
+  run: runCli,
+});
+
@@ -1,51 +1,9 @@
-#!/usr/bin/env node
-// visualize.ts - Simple ASCII visualization of benchmark results
+// visualize - Simple ASCII visualization of benchmark results
 
-import * as fs from 'fs';
-import * as path from 'path';
-
-interface BenchmarkData {
-  timestamp: string;
-  config: {
-    SIZES: number[];
-    AVG_OUT_DEG: number;
-    LOOKUP_SAMPLES: number;
-    TRAVERSAL_REPS: number;
-  };
-  results: Array<{
-    n: number;
-    edges: number;
-    'MB: AM': string;
-    'MB: AL': string;
-    'MB: AM+AL': string;
-    'MB: OOP': string;
-    'ns/op hasEdge AM': string;
-    'ns/op hasEdge AL': string;
-    'ns/op hasEdge AM+AL': string;
-    'ns/op hasEdge OOP': string;
-    [key: string]: string | number;
-  }>;
-}
-
-function findLatestResults(): string {
-  const resultsDir = './benchmark-results';
-  if (!fs.existsSync(resultsDir)) {
-    console.log('No benchmark results found. Run profile.js first.');
-    process.exit(1);
-  }
-  
-  const files = fs.readdirSync(resultsDir)
-    .filter(f => f.endsWith('.json'))
-    .sort()
-    .reverse();
-    
-  if (files.length === 0) {
-    console.log('No JSON results found.');
-    process.exit(1);
-  }
-  
-  return path.join(resultsDir, files[0]);
-}
+import { metricKey } from '../../lib/metrics';
+import { describeRuntime, structureNames } from '../../lib/results';
+import { defineCommand, EXIT, UsageError } from '../cli';
+import { latestResultFiles, loadResults } from '../output';
 
 function createBarChart(values: number[], labels: string[], title: string, maxWidth: number = 50): void {
   console.log(`\n${title}`);
@@ -62,20 +20,20 @@ function createBarChart(values: number[], labels: string[], title: string, maxWi
 }
 
 function visualizeResults(filePath: string): void {
-  const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const data = loadResults(filePath);
   const results = data.results;
+  const structures = structureNames(data);
   
   console.log(`\nBENCHMARK VISUALIZATION`);
   console.log(`Results from: ${data.timestamp}`);
+  console.log(`Runtime: ${describeRuntime(data.runtime)}`);
   console.log('='.repeat(60));
   
   // Memory usage comparison
-  const memoryData = {
-    AM: results.map(r => parseFloat(r['MB: AM'])),
-    AL: results.map(r => parseFloat(r['MB: AL'])),
-    'AM+AL': results.map(r => parseFloat(r['MB: AM+AL'])),
-    OOP: results.map(r => parseFloat(r['MB: OOP']))
-  };
+  const memoryData: Record<string, number[]> = {};
+  for (const struct of structures) {
+    memoryData[struct] = results.map(r => parseFloat(String(r[metricKey('memory', struct)])));
+  }
   
   const sizes = results.map(r => r.n);
   
@@ -85,20 +43,18 @@ function visualizeResults(filePath: string): void {
     const idx = sizes.indexOf(size);
     console.log(`\nn=${size} nodes:`);
     createBarChart(
-      [memoryData.AM[idx], memoryData.AL[idx], memoryData['AM+AL'][idx], memoryData.OOP[idx]],
-      ['AM', 'AL', 'AM+AL', 'OOP'],
+      structures.map(struct => memoryData[struct][idx]),
+      structures,
       '',
       30
     );
   }
   
   // Lookup performance (lower is better)
-  const lookupData = {
-    AM: results.map(r => parseFloat(r['ns/op hasEdge AM'])),
-    AL: results.map(r => parseFloat(r['ns/op hasEdge AL'])),
-    'AM+AL': results.map(r => parseFloat(r['ns/op hasEdge AM+AL'])),
-    OOP: results.map(r => parseFloat(r['ns/op hasEdge OOP']))
-  };
+  const lookupData: Record<string, number[]> = {};
+  for (const struct of structures) {
+    lookupData[struct] = results.map(r => parseFloat(String(r[metricKey('hasEdge', struct)])));
+  }
   
   console.log('\n\nLOOKUP PERFORMANCE (ns/op, lower=better):');
   console.log('='.repeat(50));
@@ -106,8 +62,8 @@ function visualizeResults(filePath: string): void {
     const idx = sizes.indexOf(size);
     console.log(`\nn=${size} nodes:`);
     createBarChart(
-      [lookupData.AM[idx], lookupData.AL[idx], lookupData['AM+AL'][idx], lookupData.OOP[idx]],
-      ['AM', 'AL', 'AM+AL', 'OOP'],
+      structures.map(struct => lookupData[struct][idx]),
+      structures,
       '',
       30
     );
@@ -119,7 +75,7 @@ function visualizeResults(filePath: string): void {
   
   // Memory efficiency (MB per 1000 nodes)
   console.log('\nMemory efficiency (MB per 1000 nodes):');
-  for (const struct of ['AM', 'AL', 'AM+AL', 'OOP']) {
+  for (const struct of structures) {
     const efficiency = results.map((r, i) => (memoryData[struct][i] / (r.n / 1000))).slice(-1)[0];
     console.log(`${struct.padEnd(6)}: ${efficiency.toFixed(2)} MB/1k nodes`);
   }
@@ -127,7 +83,7 @@ function visualizeResults(filePath: string): void {
   // Speed comparison summary
   console.log('\nSpeed comparison (fastest to slowest lookup):');
   const avgLookup = {};
-  for (const struct of ['AM', 'AL', 'AM+AL', 'OOP']) {
+  for (const struct of structures) {
     avgLookup[struct] = lookupData[struct].reduce((a, b) => a + b) / lookupData[struct].length;
   }
   
@@ -142,10 +98,14 @@ function visualizeResults(filePath: string): void {
   console.log('Visualization complete!');
 }
 
-// Main execution
-if (require.main === module) {
-  const filePath = process.argv[2] || findLatestResults();
-  visualizeResults(filePath);
-}
-
-export { visualizeResults };
\ No newline at end of file
+export const visualizeCommand = defineCommand({
+  name: 'visualize',
+  summary: 'ASCII charts of a saved run (default: the latest)',
+  arguments: '[results.json]',
+  options: {},
+  run: (_options, positionals) => {
+    if (positionals.length > 1) throw new UsageError('visualize takes at most one result file');
+    visualizeResults(positionals[0] ?? latestResultFiles(1)[0]);
+    return EXIT.OK;
+  },
+});
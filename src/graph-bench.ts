@@ -0,0 +1,75 @@
+#!/usr/bin/env -S npx tsx
+// graph-bench - command line entry point: benchmark runs, result charts, regression checks
+// Run with: npm run graph-bench -- <command> [options]
+
+import { EXIT, formatOptions, parseOptions, suggest, UsageError, type Command } from './cli';
+import { runCommand } from './commands/run';
+import { visualizeCommand } from './commands/visualize';
+import { compareCommand } from './commands/compare';
+import { listStructuresCommand } from './commands/list-structures';
+import { exportCommand } from './commands/export';
+
+const COMMANDS: Command[] = [runCommand, visualizeCommand, compareCommand, listStructuresCommand, exportCommand];
+
+function usage(): string {
+  const width = Math.max(...COMMANDS.map(c => c.name.length)) + 2;
+  return `
+Usage: graph-bench <command> [options]
+
+Commands:
+${COMMANDS.map(c => `  ${c.name.padEnd(width)}${c.summary}`).join('\n')}
+
+Run "graph-bench <command> --help" for a command's options.
+
+Exit codes: ${EXIT.OK} success, ${EXIT.FAILED} check failed (regressions, structures disagree),
+            ${EXIT.USAGE} invalid options or input, ${EXIT.INTERNAL} unexpected error
+`;
+}
+
+function commandHelp(command: Command): string {
+  const options = Object.keys(command.options).length ? `\n\nOptions:\n${formatOptions(command.options)}` : '';
+  const notes = command.notes ? `\n\n${command.notes}` : '';
+  return `
+Usage: graph-bench ${command.name}${command.arguments ? ` ${command.arguments}` : ''}${Object.keys(command.options).length ? ' [options]' : ''}
+
+${command.summary}${options}${notes}
+`;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+  if (!name || name === '--help' || name === '-h') {
+    console.log(usage());
+    return EXIT.OK;
+  }
+  if (name === 'help') {
+    const command = COMMANDS.find(c => c.name === rest[0]);
+    console.log(command ? commandHelp(command) : usage());
+    return EXIT.OK;
+  }
+
+  const command = COMMANDS.find(c => c.name === name);
+  if (!command) {
+    throw new UsageError(`Unknown command "${name}".${suggest(name, COMMANDS.map(c => c.name))} Run "graph-bench --help" for the list.`);
+  }
+  if (rest.includes('--help') || rest.includes('-h')) {
+    console.log(commandHelp(command));
+    return EXIT.OK;
+  }
+  const { options, positionals } = parseOptions(rest, command.options);
+  return command.run(options, positionals);
+}
+
+// exitCode rather than exit() so piped output (export to stdout) is flushed first
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  (e: unknown) => {
+    if (e instanceof UsageError) {
+      console.error(`graph-bench: ${e.message}`);
+      process.exitCode = EXIT.USAGE;
+      return;
+    }
+    console.error(e);
+    process.exitCode = EXIT.INTERNAL;
+  }
+);
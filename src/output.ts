@@ -0,0 +1,49 @@
+// Result files in ./benchmark-results/: writing a run in the chosen formats and finding and
+// loading saved runs. The formats themselves are rendered by lib/formats.ts.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { UsageError } from './cli';
+import { getOutputFormat, renderResults, type OutputFormat } from '../lib/formats';
+import type { SavedResults } from '../lib/results';
+
+export const RESULTS_DIR = './benchmark-results';
+
+function ensureDir(dir: string): void {
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+}
+
+// The `count` most recent JSON results, oldest first
+export function latestResultFiles(count: number): string[] {
+  const files = fs.existsSync(RESULTS_DIR)
+    ? fs.readdirSync(RESULTS_DIR).filter(f => f.endsWith('.json')).sort()
+    : [];
+  if (files.length < count) {
+    throw new UsageError(`Need ${count} JSON result file(s) in ${RESULTS_DIR}, found ${files.length}. Run "graph-bench run" first.`);
+  }
+  return files.slice(-count).map(f => path.join(RESULTS_DIR, f));
+}
+
+export function loadResults(filePath: string): SavedResults {
+  let data: SavedResults;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (e) {
+    throw new UsageError(`Cannot read ${filePath}: ${(e as Error).message}`);
+  }
+  if (!data || !Array.isArray(data.results)) throw new UsageError(`${filePath} is not a benchmark result file (no "results" array)`);
+  return data;
+}
+
+// Writes a run as benchmark-<timestamp>.<ext> per format. JSON is always written since
+// visualize, compare and export read it back.
+export function saveResults(data: SavedResults, formats: OutputFormat[]): string[] {
+  const stamp = data.timestamp.replace(/[:.]/g, '-');
+  ensureDir(RESULTS_DIR);
+  const all: OutputFormat[] = ['json', ...formats.filter(f => f !== 'json')];
+  return all.map(format => {
+    const filePath = path.join(RESULTS_DIR, `benchmark-${stamp}${getOutputFormat(format).extension}`);
+    fs.writeFileSync(filePath, renderResults(data, format));
+    return filePath;
+  });
+}